@@ -4,6 +4,7 @@
 import CloudlessCrypto from './cloudlessCrypto';
 import JsonSignature from './jsonSignature';
 import TokenCrypto from './tokenCrypto';
+import IndexedDbKeyStore from './indexedDbKeyStore';
 import { 
   enableBrotliWasm,
   getCompressionInfo,
@@ -15,6 +16,7 @@ export {
   CloudlessCrypto,
   JsonSignature,
   TokenCrypto,
+  IndexedDbKeyStore,
   enableBrotliWasm,
   getCompressionInfo,
   getAvailableCompressionMethods
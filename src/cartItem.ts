@@ -0,0 +1,133 @@
+import stringify from 'fast-json-stable-stringify';
+import { SignedObject } from './jsonSignature';
+import { isMinorUnits } from './money';
+
+/**
+ * Variant selections for a line item, e.g. `{ size: 'M', color: 'blue' }`.
+ * Two lines with the same SKU but different options are distinct lines.
+ */
+export type CartItemOptions = Record<string, string>;
+
+export interface CartLineItem {
+  sku: string;
+  quantity: number;
+  /** Price of one unit in minor units of the cart currency (cents for USD) */
+  unitPrice: number;
+  name?: string;
+  /** Product category, used by category scoped promotions */
+  category?: string;
+  /** Seller of the line in a marketplace cart, see MarketplaceEnvelope */
+  merchantId?: string;
+  options?: CartItemOptions;
+  metadata?: Record<string, unknown>;
+  /** Merchant-signed proof of unitPrice, see PriceAttestor */
+  attestation?: SignedObject;
+  /** Signed hold on the line's stock, see InventoryReservations */
+  reservation?: SignedObject;
+}
+
+/**
+ * Input accepted by CloudlessCart.addItem; quantity defaults to 1
+ */
+export type CartItemInput = Omit<CartLineItem, 'quantity'> & {
+  quantity?: number;
+};
+
+/**
+ * Stable identity of a line: SKU plus its (order independent) options
+ */
+export function lineItemKey(sku: string, options?: CartItemOptions): string {
+  return stringify({ sku, options: options || {} });
+}
+
+export function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate an item input and return a normalized copy of it
+ */
+export function normalizeLineItem(input: CartItemInput): CartLineItem {
+  if (typeof input?.sku !== 'string' || input.sku.length === 0) {
+    throw new Error('Line item sku must be a non-empty string');
+  }
+  const quantity = input.quantity ?? 1;
+  if (!isPositiveInteger(quantity)) {
+    throw new Error(
+      `Line item ${input.sku} quantity must be a positive integer`
+    );
+  }
+  if (!isMinorUnits(input.unitPrice) || input.unitPrice < 0) {
+    throw new Error(
+      `Line item ${input.sku} unitPrice must be a non-negative integer in minor units`
+    );
+  }
+  const item: CartLineItem = {
+    sku: input.sku,
+    quantity,
+    unitPrice: input.unitPrice,
+  };
+  if (input.name !== undefined) {
+    item.name = input.name;
+  }
+  if (input.category !== undefined) {
+    if (typeof input.category !== 'string') {
+      throw new Error(`Line item ${input.sku} category must be a string`);
+    }
+    item.category = input.category;
+  }
+  if (input.merchantId !== undefined) {
+    if (typeof input.merchantId !== 'string' || input.merchantId.length === 0) {
+      throw new Error(
+        `Line item ${input.sku} merchantId must be a non-empty string`
+      );
+    }
+    item.merchantId = input.merchantId;
+  }
+  if (input.options && Object.keys(input.options).length > 0) {
+    for (const [name, value] of Object.entries(input.options)) {
+      if (typeof value !== 'string') {
+        throw new Error(
+          `Line item ${input.sku} option ${name} must be a string`
+        );
+      }
+    }
+    item.options = { ...input.options };
+  }
+  if (input.metadata !== undefined) {
+    item.metadata = { ...input.metadata };
+  }
+  if (input.attestation !== undefined) {
+    item.attestation = copySignedObject(
+      input.attestation,
+      `Line item ${input.sku} attestation`
+    );
+  }
+  if (input.reservation !== undefined) {
+    item.reservation = copySignedObject(
+      input.reservation,
+      `Line item ${input.sku} reservation`
+    );
+  }
+  return item;
+}
+
+function copySignedObject(value: SignedObject, label: string): SignedObject {
+  if (
+    typeof value?.signature !== 'string' ||
+    typeof value.protected !== 'string' ||
+    !value.payload ||
+    typeof value.payload !== 'object'
+  ) {
+    throw new Error(`${label} must be a signed object`);
+  }
+  return {
+    signature: value.signature,
+    protected: value.protected,
+    payload: { ...value.payload },
+  };
+}
+
+export function cloneLineItem(item: CartLineItem): CartLineItem {
+  return JSON.parse(JSON.stringify(item)) as CartLineItem;
+}
@@ -0,0 +1,248 @@
+import stringify from 'fast-json-stable-stringify';
+import { lineItemKey } from './cartItem';
+
+export const CART_PATCH_TYPE = 'cart-patch';
+
+/**
+ * JSON Patch (RFC 6902) style operation, paths are JSON Pointers (RFC 6901).
+ * `-` as the last path segment appends to an array.
+ */
+export interface CartPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * Signed body of a patch token. A patch turns the payload of revision
+ * baseRevision (identified by baseHash) into the payload of revision,
+ * identified by hash.
+ */
+export interface CartPatchPayload {
+  type: typeof CART_PATCH_TYPE;
+  version: number;
+  cartId: string;
+  baseRevision: number;
+  baseHash: string;
+  revision: number;
+  hash: string;
+  ops: CartPatchOperation[];
+}
+
+type Json = unknown;
+
+const UNSAFE_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+function isObject(value: Json): value is Record<string, Json> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+/**
+ * Identity of an array element: line items by SKU + options, discounts and
+ * other records by id, anything else by value
+ */
+function elementId(value: Json): string {
+  if (isObject(value)) {
+    if (typeof value.sku === 'string') {
+      return lineItemKey(value.sku, value.options as Record<string, string>);
+    }
+    if (typeof value.id === 'string') {
+      return `id:${value.id}`;
+    }
+  }
+  return stringify(value);
+}
+
+function diffArrays(
+  base: Json[],
+  target: Json[],
+  path: string,
+  ops: CartPatchOperation[]
+): void {
+  const baseIds = base.map(elementId);
+  const targetIds = target.map(elementId);
+  if (
+    new Set(baseIds).size !== baseIds.length ||
+    new Set(targetIds).size !== targetIds.length
+  ) {
+    ops.push({ op: 'replace', path, value: clone(target) });
+    return;
+  }
+  const kept = baseIds.filter(id => targetIds.includes(id));
+  if (stringify(targetIds.slice(0, kept.length)) !== stringify(kept)) {
+    ops.push({ op: 'replace', path, value: clone(target) });
+    return;
+  }
+  for (let index = baseIds.length - 1; index >= 0; index--) {
+    if (!targetIds.includes(baseIds[index])) {
+      ops.push({ op: 'remove', path: `${path}/${index}` });
+    }
+  }
+  kept.forEach((id, index) => {
+    diffValues(
+      base[baseIds.indexOf(id)],
+      target[index],
+      `${path}/${index}`,
+      ops
+    );
+  });
+  for (const value of target.slice(kept.length)) {
+    ops.push({ op: 'add', path: `${path}/-`, value: clone(value) });
+  }
+}
+
+function diffValues(
+  base: Json,
+  target: Json,
+  path: string,
+  ops: CartPatchOperation[]
+): void {
+  if (stringify(base) === stringify(target)) {
+    return;
+  }
+  if (isObject(base) && isObject(target)) {
+    for (const key of Object.keys(base).sort()) {
+      if (!(key in target)) {
+        ops.push({ op: 'remove', path: `${path}/${escapeSegment(key)}` });
+      }
+    }
+    for (const key of Object.keys(target).sort()) {
+      const child = `${path}/${escapeSegment(key)}`;
+      if (key in base) {
+        diffValues(base[key], target[key], child, ops);
+      } else {
+        ops.push({ op: 'add', path: child, value: clone(target[key]) });
+      }
+    }
+    return;
+  }
+  if (Array.isArray(base) && Array.isArray(target)) {
+    diffArrays(base, target, path, ops);
+    return;
+  }
+  ops.push({ op: 'replace', path, value: clone(target) });
+}
+
+/**
+ * Operations that turn base into target. Arrays of line items and discounts
+ * are matched by identity, so changing one line only touches that line.
+ */
+export function diffJson(base: Json, target: Json): CartPatchOperation[] {
+  const ops: CartPatchOperation[] = [];
+  diffValues(base, target, '', ops);
+  return ops;
+}
+
+function applyOperation(
+  doc: Record<string, Json>,
+  operation: CartPatchOperation
+): void {
+  if (
+    typeof operation?.path !== 'string' ||
+    !operation.path.startsWith('/') ||
+    !['add', 'remove', 'replace'].includes(operation.op)
+  ) {
+    throw new Error('Invalid cart patch operation');
+  }
+  const segments = operation.path.slice(1).split('/').map(unescapeSegment);
+  if (segments.some(segment => UNSAFE_SEGMENTS.includes(segment))) {
+    throw new Error('Invalid cart patch operation');
+  }
+  const last = segments.pop() as string;
+  let parent: Json = doc;
+  for (const segment of segments) {
+    parent =
+      isObject(parent) || Array.isArray(parent)
+        ? (parent as Record<string, Json>)[segment]
+        : undefined;
+  }
+  const missing = () =>
+    new Error(`Cart patch path ${operation.path} does not exist`);
+  if (Array.isArray(parent)) {
+    const index = last === '-' ? parent.length : Number(last);
+    if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+      throw missing();
+    }
+    if (operation.op === 'add') {
+      parent.splice(index, 0, clone(operation.value));
+    } else if (index === parent.length) {
+      throw missing();
+    } else if (operation.op === 'remove') {
+      parent.splice(index, 1);
+    } else {
+      parent[index] = clone(operation.value);
+    }
+    return;
+  }
+  if (!isObject(parent)) {
+    throw missing();
+  }
+  if (operation.op !== 'add' && !(last in parent)) {
+    throw missing();
+  }
+  if (operation.op === 'remove') {
+    delete parent[last];
+  } else {
+    parent[last] = clone(operation.value);
+  }
+}
+
+/**
+ * Apply operations to a copy of doc
+ */
+export function applyJsonPatch<T extends Record<string, unknown>>(
+  doc: T,
+  ops: CartPatchOperation[]
+): T {
+  if (!Array.isArray(ops)) {
+    throw new Error('Cart patch ops must be an array');
+  }
+  const patched = clone(doc);
+  for (const operation of ops) {
+    applyOperation(patched, operation);
+  }
+  return patched;
+}
+
+/**
+ * Validate an untrusted (e.g. just verified) patch payload
+ */
+export function parseCartPatch(value: unknown): CartPatchPayload {
+  const raw = (value || {}) as Record<string, unknown>;
+  if (raw.type !== CART_PATCH_TYPE) {
+    throw new Error('Not a cart patch');
+  }
+  if (
+    typeof raw.version !== 'number' ||
+    typeof raw.cartId !== 'string' ||
+    typeof raw.baseRevision !== 'number' ||
+    typeof raw.baseHash !== 'string' ||
+    typeof raw.revision !== 'number' ||
+    typeof raw.hash !== 'string' ||
+    !Array.isArray(raw.ops)
+  ) {
+    throw new Error('Cart patch is malformed');
+  }
+  return {
+    type: CART_PATCH_TYPE,
+    version: raw.version,
+    cartId: raw.cartId,
+    baseRevision: raw.baseRevision,
+    baseHash: raw.baseHash,
+    revision: raw.revision,
+    hash: raw.hash,
+    ops: raw.ops as CartPatchOperation[],
+  };
+}
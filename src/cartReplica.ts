@@ -0,0 +1,607 @@
+import stringify from 'fast-json-stable-stringify';
+import {
+  CartItemInput,
+  CartLineItem,
+  lineItemKey,
+  normalizeLineItem,
+} from './cartItem';
+import { CartDiscount, validateDiscount } from './cartTotals';
+import { CartItemLists, ITEM_LISTS, ItemListName } from './itemCollections';
+
+/**
+ * Lamport clock value plus the replica that produced it, orders concurrent
+ * writes the same way on every replica
+ */
+export interface ReplicaStamp {
+  clock: number;
+  replica: string;
+}
+
+/**
+ * Last-writer-wins register, an absent value records a removal
+ */
+export interface ReplicaRegister<T> {
+  value?: T;
+  stamp: ReplicaStamp;
+}
+
+/**
+ * PN-counter, increments and decrements per replica
+ */
+export interface ReplicaCounter {
+  inc: Record<string, number>;
+  dec: Record<string, number>;
+}
+
+/**
+ * One line of the OR-set. Each add creates a tag with its own quantity
+ * counter; removing a line drops the tags it has observed, so a concurrent
+ * add on another replica survives the removal.
+ */
+export interface ReplicaLine {
+  /** Line data without the quantity, last writer wins */
+  item: ReplicaRegister<CartItemInput>;
+  /** Live add tags and their counters */
+  tags: Record<string, ReplicaCounter>;
+}
+
+/**
+ * Lines of the saved and wishlist collections, each its own OR-set keyed by
+ * lineItemKey. Empty collections are left out.
+ */
+export type ReplicaCollections = Partial<
+  Record<ItemListName, Record<string, ReplicaLine>>
+>;
+
+export interface CartReplicaState {
+  /** Replica that produced this state */
+  replicaId: string;
+  clock: number;
+  /** Keyed by lineItemKey */
+  lines: Record<string, ReplicaLine>;
+  collections?: ReplicaCollections;
+  /**
+   * Highest add tag clock observed per replica. A tag missing from a state
+   * whose seen covers it was removed there, so no tombstones are kept.
+   */
+  seen: Record<string, number>;
+  /** Keyed by discount id */
+  discounts: Record<string, ReplicaRegister<CartDiscount>>;
+  taxRate?: ReplicaRegister<string>;
+}
+
+/**
+ * The cart contents a replica state resolves to
+ */
+export interface ReplicaView {
+  items: CartLineItem[];
+  discounts: CartDiscount[];
+  taxRate?: string;
+  /** Non-empty saved and wishlist collections */
+  collections?: CartItemLists;
+}
+
+function compareStamps(a: ReplicaStamp, b: ReplicaStamp): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0;
+}
+
+function newerRegister<T>(
+  a: ReplicaRegister<T> | undefined,
+  b: ReplicaRegister<T> | undefined
+): ReplicaRegister<T> | undefined {
+  if (!a || !b) {
+    return a || b;
+  }
+  return compareStamps(a.stamp, b.stamp) >= 0 ? a : b;
+}
+
+function tagStamp(tag: string): ReplicaStamp {
+  const at = tag.lastIndexOf('@');
+  return { replica: tag.slice(0, at), clock: Number(tag.slice(at + 1)) };
+}
+
+function hasSeen(seen: Record<string, number>, tag: string): boolean {
+  const stamp = tagStamp(tag);
+  return (seen[stamp.replica] ?? 0) >= stamp.clock;
+}
+
+function counterValue(counter: ReplicaCounter): number {
+  const sum = (values: Record<string, number>) =>
+    Object.values(values).reduce((total, value) => total + value, 0);
+  return sum(counter.inc) - sum(counter.dec);
+}
+
+function mergeCounts(
+  a: Record<string, number>,
+  b: Record<string, number>
+): Record<string, number> {
+  const merged = { ...a };
+  for (const [replica, value] of Object.entries(b)) {
+    merged[replica] = Math.max(merged[replica] ?? 0, value);
+  }
+  return merged;
+}
+
+/**
+ * Merge two OR-sets of lines. A tag only one side holds survives unless the
+ * other side has seen it, i.e. removed it.
+ */
+function mergeLines(
+  oursLines: Record<string, ReplicaLine>,
+  theirsLines: Record<string, ReplicaLine>,
+  oursSeen: Record<string, number>,
+  theirsSeen: Record<string, number>
+): Record<string, ReplicaLine> {
+  const lines: Record<string, ReplicaLine> = {};
+  const keys = new Set([
+    ...Object.keys(oursLines),
+    ...Object.keys(theirsLines),
+  ]);
+  for (const key of keys) {
+    const ours = oursLines[key];
+    const theirs = theirsLines[key];
+    const tags: Record<string, ReplicaCounter> = {};
+    const sides: [
+      ReplicaLine | undefined,
+      ReplicaLine | undefined,
+      Record<string, number>
+    ][] = [
+      [ours, theirs, theirsSeen],
+      [theirs, ours, oursSeen],
+    ];
+    for (const [line, otherLine, otherSeen] of sides) {
+      for (const [tag, counter] of Object.entries(line?.tags || {})) {
+        if (!otherLine?.tags[tag] && hasSeen(otherSeen, tag)) {
+          continue;
+        }
+        const existing = tags[tag] || { inc: {}, dec: {} };
+        tags[tag] = {
+          inc: mergeCounts(existing.inc, counter.inc),
+          dec: mergeCounts(existing.dec, counter.dec),
+        };
+      }
+    }
+    if (Object.keys(tags).length > 0) {
+      lines[key] = {
+        item: newerRegister(
+          ours?.item,
+          theirs?.item
+        ) as ReplicaRegister<CartItemInput>,
+        tags,
+      };
+    }
+  }
+  return lines;
+}
+
+function lineData(item: CartLineItem): CartItemInput {
+  const data: CartItemInput = { ...item };
+  delete data.quantity;
+  return data;
+}
+
+function cloneState(state: CartReplicaState): CartReplicaState {
+  return JSON.parse(JSON.stringify(state)) as CartReplicaState;
+}
+
+function isStamp(value: unknown): value is ReplicaStamp {
+  const stamp = (value || {}) as Record<string, unknown>;
+  return (
+    typeof stamp.clock === 'number' &&
+    Number.isInteger(stamp.clock) &&
+    typeof stamp.replica === 'string'
+  );
+}
+
+function isCounts(value: unknown): value is Record<string, number> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Object.values(value).every(
+      count =>
+        typeof count === 'number' && Number.isInteger(count) && count >= 0
+    )
+  );
+}
+
+/**
+ * Validate a serialized replica state, e.g. taken from a verified payload
+ */
+export function parseReplicaState(value: unknown): CartReplicaState {
+  const raw = (value || {}) as Record<string, unknown>;
+  if (typeof raw.replicaId !== 'string' || raw.replicaId.length === 0) {
+    throw new Error('Replica state replicaId must be a non-empty string');
+  }
+  if (typeof raw.clock !== 'number' || !Number.isInteger(raw.clock)) {
+    throw new Error('Replica state clock must be an integer');
+  }
+  // States written before seen was added list removed tags instead
+  const legacy = raw.seen === undefined && Array.isArray(raw.removed);
+  if (legacy) {
+    if ((raw.removed as unknown[]).some(tag => typeof tag !== 'string')) {
+      throw new Error('Replica state removed must be an array of tags');
+    }
+  } else if (!isCounts(raw.seen)) {
+    throw new Error('Replica state seen must map replicas to clocks');
+  }
+  const state: CartReplicaState = {
+    replicaId: raw.replicaId,
+    clock: raw.clock,
+    lines: {},
+    seen: legacy ? {} : { ...(raw.seen as Record<string, number>) },
+    discounts: {},
+  };
+  const observe = (tag: string) => {
+    const stamp = tagStamp(tag);
+    state.seen[stamp.replica] = Math.max(
+      state.seen[stamp.replica] ?? 0,
+      stamp.clock
+    );
+  };
+  if (legacy) {
+    (raw.removed as string[]).forEach(observe);
+  }
+  const parseLine = (key: string, line: ReplicaLine): ReplicaLine => {
+    if (!line?.item?.value || !isStamp(line.item.stamp)) {
+      throw new Error('Replica state line is invalid');
+    }
+    const item = lineData(normalizeLineItem(line.item.value));
+    if (lineItemKey(item.sku, item.options) !== key) {
+      throw new Error(`Replica state line ${item.sku} has the wrong key`);
+    }
+    const tags: Record<string, ReplicaCounter> = {};
+    for (const [tag, counter] of Object.entries(line.tags || {})) {
+      if (!isCounts(counter?.inc) || !isCounts(counter?.dec)) {
+        throw new Error(`Replica state line ${item.sku} counter is invalid`);
+      }
+      if (legacy) {
+        observe(tag);
+      } else if (!hasSeen(state.seen, tag)) {
+        throw new Error(`Replica state seen does not cover tag ${tag}`);
+      }
+      tags[tag] = { inc: { ...counter.inc }, dec: { ...counter.dec } };
+    }
+    return { item: { value: item, stamp: { ...line.item.stamp } }, tags };
+  };
+  const parseLines = (value: unknown): Record<string, ReplicaLine> => {
+    const lines: Record<string, ReplicaLine> = {};
+    for (const [key, line] of Object.entries(
+      (value || {}) as Record<string, ReplicaLine>
+    )) {
+      lines[key] = parseLine(key, line);
+    }
+    return lines;
+  };
+  state.lines = parseLines(raw.lines);
+  if (raw.collections !== undefined) {
+    const collections = (raw.collections || {}) as Record<string, unknown>;
+    const parsed: ReplicaCollections = {};
+    for (const [name, lines] of Object.entries(collections)) {
+      if (!ITEM_LISTS.includes(name as ItemListName)) {
+        throw new Error(`Replica state collection ${name} is unknown`);
+      }
+      const list = parseLines(lines);
+      if (Object.keys(list).length > 0) {
+        parsed[name as ItemListName] = list;
+      }
+    }
+    if (Object.keys(parsed).length > 0) {
+      state.collections = parsed;
+    }
+  }
+  const discounts = (raw.discounts || {}) as Record<
+    string,
+    ReplicaRegister<CartDiscount>
+  >;
+  for (const [id, register] of Object.entries(discounts)) {
+    if (!isStamp(register?.stamp)) {
+      throw new Error(`Replica state discount ${id} is invalid`);
+    }
+    state.discounts[id] = { stamp: { ...register.stamp } };
+    if (register.value !== undefined) {
+      if (validateDiscount(register.value).id !== id) {
+        throw new Error(`Replica state discount ${id} has the wrong id`);
+      }
+      state.discounts[id].value = { ...register.value };
+    }
+  }
+  if (raw.taxRate !== undefined) {
+    const taxRate = raw.taxRate as ReplicaRegister<string>;
+    if (
+      !isStamp(taxRate?.stamp) ||
+      (taxRate.value !== undefined && typeof taxRate.value !== 'string')
+    ) {
+      throw new Error('Replica state taxRate is invalid');
+    }
+    state.taxRate = { stamp: { ...taxRate.stamp } };
+    if (taxRate.value !== undefined) {
+      state.taxRate.value = taxRate.value;
+    }
+  }
+  return state;
+}
+
+/**
+ * Conflict-free replicated cart contents. Every device edits its own
+ * replica offline; merging replica states in any order, any number of times,
+ * gives the same cart on every device.
+ *
+ * - lines, saved and wishlist items: OR-sets keyed by SKU + options,
+ *   concurrent adds survive removals
+ * - quantities: PN-counters per add tag, concurrent changes add up
+ * - line data, discounts and tax rate: last writer wins by Lamport clock
+ *
+ * CloudlessCart keeps a replica up to date with update() and embeds its
+ * state in the signed payload, see CloudlessCart.mergeReplica.
+ */
+export default class CartReplica {
+  private state: CartReplicaState;
+
+  constructor(replicaId: string, state?: CartReplicaState) {
+    if (typeof replicaId !== 'string' || replicaId.length === 0) {
+      throw new Error('Replica id must be a non-empty string');
+    }
+    this.state = state
+      ? parseReplicaState(state)
+      : {
+          replicaId,
+          clock: 0,
+          lines: {},
+          seen: {},
+          discounts: {},
+        };
+    this.state.replicaId = replicaId;
+  }
+
+  public static fromState(state: CartReplicaState): CartReplica {
+    return new CartReplica(state.replicaId, state);
+  }
+
+  public getReplicaId(): string {
+    return this.state.replicaId;
+  }
+
+  public getState(): CartReplicaState {
+    return cloneState(this.state);
+  }
+
+  /**
+   * Resolve the state to cart contents. Lines are ordered by their oldest
+   * add tag, discounts by their last write.
+   */
+  public getView(): ReplicaView {
+    const discounts = Object.values(this.state.discounts)
+      .filter(register => register.value !== undefined)
+      .sort((a, b) => compareStamps(a.stamp, b.stamp))
+      .map(register => ({ ...(register.value as CartDiscount) }));
+    const view: ReplicaView = {
+      items: this.viewLines(this.state.lines),
+      discounts,
+    };
+    if (this.state.taxRate?.value !== undefined) {
+      view.taxRate = this.state.taxRate.value;
+    }
+    const collections: CartItemLists = {};
+    for (const name of ITEM_LISTS) {
+      const items = this.viewLines(this.state.collections?.[name] || {});
+      if (items.length > 0) {
+        collections[name] = items;
+      }
+    }
+    if (Object.keys(collections).length > 0) {
+      view.collections = collections;
+    }
+    return view;
+  }
+
+  /**
+   * Record the local edits that turn the current view into the given one
+   */
+  public update(target: ReplicaView): void {
+    this.updateLines(this.state.lines, target.items);
+    for (const name of ITEM_LISTS) {
+      const lines = this.state.collections?.[name] || {};
+      this.updateLines(lines, target.collections?.[name] || []);
+      this.setCollection(name, lines);
+    }
+
+    // Discounts apply in order, so registers are stamped in target order
+    const targetIds = new Set<string>();
+    let previous: ReplicaStamp | undefined;
+    for (const discount of target.discounts) {
+      targetIds.add(discount.id);
+      const register = this.state.discounts[discount.id];
+      if (
+        stringify(register?.value) !== stringify(discount) ||
+        (previous && compareStamps(register.stamp, previous) <= 0)
+      ) {
+        this.state.discounts[discount.id] = {
+          value: { ...discount },
+          stamp: this.tick(),
+        };
+      }
+      previous = this.state.discounts[discount.id].stamp;
+    }
+    for (const [id, register] of Object.entries(this.state.discounts)) {
+      if (register.value !== undefined && !targetIds.has(id)) {
+        this.state.discounts[id] = { stamp: this.tick() };
+      }
+    }
+
+    if (this.state.taxRate?.value !== target.taxRate) {
+      this.state.taxRate = { stamp: this.tick() };
+      if (target.taxRate !== undefined) {
+        this.state.taxRate.value = target.taxRate;
+      }
+    }
+  }
+
+  /**
+   * Merge another replica state into this one. Merging is commutative,
+   * associative and idempotent.
+   */
+  public merge(other: CartReplicaState): void {
+    const incoming = parseReplicaState(other);
+    const lines = mergeLines(
+      this.state.lines,
+      incoming.lines,
+      this.state.seen,
+      incoming.seen
+    );
+    const discounts: Record<string, ReplicaRegister<CartDiscount>> = {};
+    for (const id of new Set([
+      ...Object.keys(this.state.discounts),
+      ...Object.keys(incoming.discounts),
+    ])) {
+      discounts[id] = newerRegister(
+        this.state.discounts[id],
+        incoming.discounts[id]
+      ) as ReplicaRegister<CartDiscount>;
+    }
+    const taxRate = newerRegister(this.state.taxRate, incoming.taxRate);
+    const collections: ReplicaCollections = {};
+    for (const name of ITEM_LISTS) {
+      collections[name] = mergeLines(
+        this.state.collections?.[name] || {},
+        incoming.collections?.[name] || {},
+        this.state.seen,
+        incoming.seen
+      );
+    }
+    this.state = {
+      replicaId: this.state.replicaId,
+      clock: Math.max(this.state.clock, incoming.clock),
+      lines,
+      seen: mergeCounts(this.state.seen, incoming.seen),
+      discounts,
+    };
+    for (const name of ITEM_LISTS) {
+      this.setCollection(name, collections[name] || {});
+    }
+    if (taxRate) {
+      this.state.taxRate = taxRate;
+    }
+  }
+
+  /**
+   * Record the edits that turn one OR-set of lines into the given items
+   */
+  private updateLines(
+    lines: Record<string, ReplicaLine>,
+    items: CartLineItem[]
+  ): void {
+    const targetKeys = new Set<string>();
+    for (const item of items) {
+      const key = lineItemKey(item.sku, item.options);
+      targetKeys.add(key);
+      const line = lines[key];
+      if (!line) {
+        const stamp = this.tick();
+        this.state.seen[stamp.replica] = stamp.clock;
+        lines[key] = {
+          item: { value: lineData(item), stamp },
+          tags: {
+            [this.tag(stamp)]: {
+              inc: { [stamp.replica]: item.quantity },
+              dec: {},
+            },
+          },
+        };
+        continue;
+      }
+      if (stringify(line.item.value) !== stringify(lineData(item))) {
+        line.item = { value: lineData(item), stamp: this.tick() };
+      }
+      const delta = item.quantity - this.rawQuantityOf(line);
+      if (delta !== 0) {
+        this.adjust(line, delta);
+      }
+    }
+    for (const key of Object.keys(lines)) {
+      if (!targetKeys.has(key)) {
+        delete lines[key];
+        this.tick();
+      }
+    }
+  }
+
+  /**
+   * Items of one OR-set of lines, ordered by their oldest add tag
+   */
+  private viewLines(lines: Record<string, ReplicaLine>): CartLineItem[] {
+    const view: { stamp: ReplicaStamp; item: CartLineItem }[] = [];
+    for (const line of Object.values(lines)) {
+      const quantity = this.quantityOf(line);
+      const tags = Object.keys(line.tags).map(tagStamp).sort(compareStamps);
+      if (quantity > 0 && line.item.value && tags.length > 0) {
+        view.push({
+          stamp: tags[0],
+          item: normalizeLineItem({ ...line.item.value, quantity }),
+        });
+      }
+    }
+    view.sort((a, b) => compareStamps(a.stamp, b.stamp));
+    return view.map(line => line.item);
+  }
+
+  /**
+   * Store the lines of a collection, leaving out empty collections
+   */
+  private setCollection(
+    name: ItemListName,
+    lines: Record<string, ReplicaLine>
+  ): void {
+    const collections = this.state.collections || {};
+    if (Object.keys(lines).length > 0) {
+      collections[name] = lines;
+    } else {
+      delete collections[name];
+    }
+    if (Object.keys(collections).length > 0) {
+      this.state.collections = collections;
+    } else {
+      delete this.state.collections;
+    }
+  }
+
+  private quantityOf(line: ReplicaLine): number {
+    return Math.max(0, this.rawQuantityOf(line));
+  }
+
+  private rawQuantityOf(line: ReplicaLine): number {
+    return Object.values(line.tags).reduce(
+      (total, counter) => total + counterValue(counter),
+      0
+    );
+  }
+
+  /**
+   * Change a line's quantity on this replica's own tag when it has one,
+   * otherwise on the oldest live tag
+   */
+  private adjust(line: ReplicaLine, delta: number): void {
+    const replica = this.state.replicaId;
+    const tags = Object.keys(line.tags).sort((a, b) =>
+      compareStamps(tagStamp(a), tagStamp(b))
+    );
+    const tag =
+      tags.find(candidate => tagStamp(candidate).replica === replica) ||
+      tags[0];
+    const counter = line.tags[tag];
+    const counts = delta > 0 ? counter.inc : counter.dec;
+    counts[replica] = (counts[replica] ?? 0) + Math.abs(delta);
+    this.tick();
+  }
+
+  private tick(): ReplicaStamp {
+    this.state.clock += 1;
+    return { clock: this.state.clock, replica: this.state.replicaId };
+  }
+
+  private tag(stamp: ReplicaStamp): string {
+    return `${stamp.replica}@${stamp.clock}`;
+  }
+}
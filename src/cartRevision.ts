@@ -0,0 +1,194 @@
+import {
+  CartPayload,
+  hashCartPayload,
+  parseCartPayload,
+} from './cloudlessCart';
+
+export type RevisionRecord = {
+  revision: number;
+  hash: string;
+};
+
+/**
+ * Latest known revision per cartId, a Map works out of the box
+ */
+export type RevisionStore = {
+  set: (cartId: string, value: RevisionRecord) => void;
+  get: (cartId: string) => RevisionRecord | undefined;
+};
+
+export interface RevisionCheck {
+  valid: boolean;
+  error?: string;
+  cartId?: string;
+  revision?: number;
+  hash?: string;
+}
+
+export interface ChainCheck {
+  valid: boolean;
+  error?: string;
+  /** Position of the first revision that failed */
+  index?: number;
+  head?: RevisionRecord;
+}
+
+export interface RevisionVerifierOptions {
+  /** Accept revisions that skip ahead of the latest known one, default true */
+  allowGaps?: boolean;
+}
+
+/**
+ * Check that next is the direct successor of previous
+ */
+export async function verifyRevisionLink(
+  previous: CartPayload,
+  next: CartPayload
+): Promise<RevisionCheck> {
+  if (previous.cartId !== next.cartId) {
+    return { valid: false, error: 'Revisions belong to different carts' };
+  }
+  if (next.revision !== previous.revision + 1) {
+    return {
+      valid: false,
+      error: `Revision ${next.revision} does not follow ${previous.revision}`,
+    };
+  }
+  if (next.previousHash !== (await hashCartPayload(previous))) {
+    return {
+      valid: false,
+      error: `Revision ${next.revision} does not extend revision ${previous.revision}`,
+    };
+  }
+  return {
+    valid: true,
+    cartId: next.cartId,
+    revision: next.revision,
+    hash: await hashCartPayload(next),
+  };
+}
+
+/**
+ * Tracks the newest revision seen for each cart and rejects stale or forked
+ * tokens. Payloads must already be verified (signature checked).
+ */
+export default class RevisionVerifier {
+  private readonly _revisions: RevisionStore;
+  private readonly allowGaps: boolean;
+
+  constructor(store?: RevisionStore, options: RevisionVerifierOptions = {}) {
+    this._revisions = store || new Map<string, RevisionRecord>();
+    this.allowGaps = options.allowGaps ?? true;
+  }
+
+  /**
+   * Check a verified payload against the latest known revision without
+   * recording it. Presenting the latest revision again is allowed.
+   */
+  public async check(verified: unknown): Promise<RevisionCheck> {
+    let payload: CartPayload;
+    try {
+      payload = parseCartPayload(verified);
+    } catch (e) {
+      return { valid: false, error: (e as Error).message };
+    }
+    const hash = await hashCartPayload(payload);
+    const result = {
+      cartId: payload.cartId,
+      revision: payload.revision,
+      hash,
+    };
+    const latest = this._revisions.get(payload.cartId);
+    if (!latest) {
+      return { valid: true, ...result };
+    }
+    if (payload.revision < latest.revision) {
+      return {
+        valid: false,
+        error: `Revision ${payload.revision} is older than latest revision ${latest.revision}`,
+        ...result,
+      };
+    }
+    if (payload.revision === latest.revision) {
+      if (hash !== latest.hash) {
+        return {
+          valid: false,
+          error: `Revision ${payload.revision} conflicts with the known revision`,
+          ...result,
+        };
+      }
+      return { valid: true, ...result };
+    }
+    if (payload.revision === latest.revision + 1) {
+      if (payload.previousHash !== latest.hash) {
+        return {
+          valid: false,
+          error: `Revision ${payload.revision} does not extend revision ${latest.revision}`,
+          ...result,
+        };
+      }
+      return { valid: true, ...result };
+    }
+    if (!this.allowGaps) {
+      return {
+        valid: false,
+        error: `Revision ${payload.revision} skips ahead of revision ${latest.revision}`,
+        ...result,
+      };
+    }
+    return { valid: true, ...result };
+  }
+
+  /**
+   * Check a verified payload and record it as the latest revision if valid
+   */
+  public async accept(verified: unknown): Promise<RevisionCheck> {
+    const result = await this.check(verified);
+    if (result.valid && result.cartId) {
+      this._revisions.set(result.cartId, {
+        revision: result.revision as number,
+        hash: result.hash as string,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Validate an ordered list of verified payloads, oldest first
+   */
+  public async verifyChain(revisions: unknown[]): Promise<ChainCheck> {
+    if (revisions.length === 0) {
+      return { valid: false, error: 'Revision chain is empty' };
+    }
+    const payloads: CartPayload[] = [];
+    for (let index = 0; index < revisions.length; index++) {
+      try {
+        payloads.push(parseCartPayload(revisions[index]));
+      } catch (e) {
+        return { valid: false, error: (e as Error).message, index };
+      }
+    }
+    for (let index = 1; index < payloads.length; index++) {
+      const link = await verifyRevisionLink(
+        payloads[index - 1],
+        payloads[index]
+      );
+      if (!link.valid) {
+        return { valid: false, error: link.error, index };
+      }
+    }
+    const head = payloads[payloads.length - 1];
+    const result = await this.check(head);
+    if (!result.valid) {
+      return {
+        valid: false,
+        error: result.error,
+        index: payloads.length - 1,
+      };
+    }
+    return {
+      valid: true,
+      head: { revision: head.revision, hash: result.hash as string },
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { ROUNDING_MODES } from './money';
+import { schema } from './schema';
+
+const decimal = () =>
+  schema.string({
+    pattern: /^-?\d+(\.\d+)?$/,
+    description: 'a decimal string',
+  });
+
+export const signedObjectSchema = schema.object({
+  signature: schema.string(),
+  protected: schema.string(),
+  payload: schema.record(schema.any()),
+});
+
+export const lineItemSchema = schema.object({
+  sku: schema.string({ minLength: 1 }),
+  quantity: schema.integer({ min: 1 }),
+  unitPrice: schema.integer({ min: 0 }),
+  name: schema.optional(schema.string()),
+  category: schema.optional(schema.string()),
+  merchantId: schema.optional(schema.string({ minLength: 1 })),
+  options: schema.optional(schema.record(schema.string())),
+  metadata: schema.optional(schema.record(schema.any())),
+  attestation: schema.optional(signedObjectSchema),
+  reservation: schema.optional(signedObjectSchema),
+});
+
+export const discountSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+  description: schema.optional(schema.string()),
+  amount: schema.optional(schema.integer({ min: 0 })),
+  rate: schema.optional(decimal()),
+  sku: schema.optional(schema.string()),
+  skus: schema.optional(schema.array(schema.string())),
+  shipping: schema.optional(schema.boolean()),
+  coupon: schema.optional(signedObjectSchema),
+});
+
+export const cartTotalsSchema = schema.object({
+  currency: schema.string(),
+  subtotal: schema.integer(),
+  discount: schema.integer(),
+  tax: schema.integer(),
+  total: schema.integer(),
+  shipping: schema.optional(schema.integer({ min: 0 })),
+  lines: schema.array(schema.record(schema.any())),
+  discounts: schema.array(schema.record(schema.any())),
+});
+
+/**
+ * Saved and wishlist lines carried in a cart payload
+ */
+export const itemListsSchema = schema.object(
+  {
+    saved: schema.optional(schema.array(lineItemSchema)),
+    wishlist: schema.optional(schema.array(lineItemSchema)),
+  },
+  { additional: false }
+);
+
+/**
+ * Structure of a CartPayload. parseCartPayload enforces it on every payload
+ * it reads, CloudlessCart on every payload it signs.
+ */
+export const cartPayloadSchema = schema.object({
+  version: schema.integer({ min: 1 }),
+  cartId: schema.string({ minLength: 1 }),
+  revision: schema.integer({ min: 1 }),
+  previousHash: schema.optional(schema.string()),
+  updatedAt: schema.number({ description: 'a timestamp' }),
+  currency: schema.string({
+    pattern: /^[A-Z]{3}$/,
+    description: 'an ISO 4217 currency code',
+  }),
+  taxRate: schema.optional(decimal()),
+  rounding: schema.oneOf(ROUNDING_MODES),
+  items: schema.array(lineItemSchema),
+  discounts: schema.array(discountSchema),
+  totals: cartTotalsSchema,
+  merges: schema.optional(schema.array(schema.record(schema.any()))),
+  replica: schema.optional(schema.record(schema.any())),
+  shippingQuote: schema.optional(signedObjectSchema),
+  collections: schema.optional(itemListsSchema),
+});
@@ -0,0 +1,290 @@
+import { CartItemOptions, CartLineItem } from './cartItem';
+import { SignedObject } from './jsonSignature';
+import {
+  allocate,
+  assertMinorUnits,
+  getCurrencyExponent,
+  multiplyByRate,
+  parseDecimal,
+  roundDivide,
+  RoundingMode,
+} from './money';
+import { LineTaxRates, TaxableLine, TaxCalculator, TaxComponent } from './tax';
+
+/**
+ * A discount applied to the cart. Either a fixed amount in minor units or a
+ * decimal rate ('0.10' for 10% off). Scoped to one SKU when sku is set, to
+ * a list of SKUs when skus is set, otherwise applied across the whole cart.
+ */
+export interface CartDiscount {
+  id: string;
+  description?: string;
+  amount?: number;
+  rate?: string;
+  sku?: string;
+  skus?: string[];
+  /** Applies to the shipping charge instead of the lines */
+  shipping?: boolean;
+  /** Signed coupon the discount was derived from, see PromotionEngine */
+  coupon?: SignedObject;
+}
+
+export interface LineTotal {
+  sku: string;
+  options?: CartItemOptions;
+  quantity: number;
+  unitPrice: number;
+  gross: number;
+  discount: number;
+  net: number;
+  tax: number;
+  total: number;
+  /** Set when a TaxCalculator priced the line, net already contains tax */
+  taxInclusive?: boolean;
+  /** Line level tax breakdown, set when a TaxCalculator priced the line */
+  taxes?: TaxComponent[];
+}
+
+export interface AppliedDiscount {
+  id: string;
+  amount: number;
+}
+
+export interface CartTotals {
+  currency: string;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  lines: LineTotal[];
+  discounts: AppliedDiscount[];
+  /** Shipping charge after shipping discounts, included in total */
+  shipping?: number;
+}
+
+export interface TotalsOptions {
+  currency: string;
+  taxRate?: string;
+  rounding?: RoundingMode;
+  /** Takes precedence over taxRate */
+  taxCalculator?: TaxCalculator;
+  /** Shipping charge in minor units */
+  shipping?: number;
+}
+
+/**
+ * Turn the rates of one line into amounts. Exclusive rates are applied to
+ * the net value; inclusive tax is extracted from it and split over the rates
+ * in proportion to them.
+ */
+function applyLineTax(
+  line: LineTotal,
+  taxRates: LineTaxRates,
+  rounding: RoundingMode
+): void {
+  const rates = taxRates.rates.map(tax => ({
+    ...tax,
+    parsed: parseDecimal(tax.rate),
+  }));
+  let amounts: number[];
+  if (taxRates.inclusive) {
+    const scale = Math.max(0, ...rates.map(tax => tax.parsed.scale));
+    const weights = rates.map(
+      tax => tax.parsed.value * 10 ** (scale - tax.parsed.scale)
+    );
+    const combined = weights.reduce((sum, weight) => sum + weight, 0);
+    const base = roundDivide(
+      line.net * 10 ** scale,
+      10 ** scale + combined,
+      rounding
+    );
+    amounts = combined > 0 ? allocate(line.net - base, weights) : [];
+  } else {
+    amounts = rates.map(tax => multiplyByRate(line.net, tax.rate, rounding));
+  }
+  line.taxInclusive = taxRates.inclusive;
+  line.taxes = rates.map((tax, index) => ({
+    name: tax.name,
+    rate: tax.rate,
+    amount: amounts[index] ?? 0,
+  }));
+  line.tax = line.taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  line.total = taxRates.inclusive ? line.net : line.net + line.tax;
+}
+
+export function validateDiscount(discount: CartDiscount): CartDiscount {
+  if (typeof discount?.id !== 'string' || discount.id.length === 0) {
+    throw new Error('Discount id must be a non-empty string');
+  }
+  if ((discount.amount === undefined) === (discount.rate === undefined)) {
+    throw new Error(
+      `Discount ${discount.id} needs exactly one of amount or rate`
+    );
+  }
+  if (discount.amount !== undefined) {
+    assertMinorUnits(discount.amount, `Discount ${discount.id} amount`);
+    if (discount.amount < 0) {
+      throw new Error(`Discount ${discount.id} amount must not be negative`);
+    }
+  }
+  if (discount.rate !== undefined) {
+    const rate = parseDecimal(discount.rate);
+    if (rate.value < 0 || rate.value > 10 ** rate.scale) {
+      throw new Error(`Discount ${discount.id} rate must be between 0 and 1`);
+    }
+  }
+  if (
+    discount.skus !== undefined &&
+    (!Array.isArray(discount.skus) ||
+      discount.skus.some(sku => typeof sku !== 'string'))
+  ) {
+    throw new Error(`Discount ${discount.id} skus must be a list of SKUs`);
+  }
+  const validated = { ...discount };
+  if (discount.skus) {
+    validated.skus = [...discount.skus];
+  }
+  if (discount.coupon !== undefined) {
+    const coupon = discount.coupon;
+    if (
+      typeof coupon?.signature !== 'string' ||
+      typeof coupon.protected !== 'string' ||
+      !coupon.payload ||
+      typeof coupon.payload !== 'object'
+    ) {
+      throw new Error(`Discount ${discount.id} coupon must be a signed object`);
+    }
+    validated.coupon = {
+      signature: coupon.signature,
+      protected: coupon.protected,
+      payload: JSON.parse(JSON.stringify(coupon.payload)) as Record<
+        string,
+        unknown
+      >,
+    };
+  }
+  return validated;
+}
+
+/**
+ * Deterministically compute line and cart totals. Everything is integer
+ * minor units, so a verifier running this on a signed payload gets exactly
+ * the numbers that were signed.
+ *
+ * Discounts are applied in order; each one is capped at the remaining value
+ * of the lines it targets and spread over those lines in proportion to their
+ * remaining value. Tax is rounded per line. Shipping discounts reduce the
+ * shipping charge, which is added to the total untaxed.
+ */
+export function calculateCartTotals(
+  items: CartLineItem[],
+  discounts: CartDiscount[],
+  options: TotalsOptions
+): CartTotals {
+  getCurrencyExponent(options.currency);
+  const rounding = options.rounding || 'half-even';
+  const lines: LineTotal[] = items.map(item => {
+    const gross = assertMinorUnits(
+      item.unitPrice * item.quantity,
+      `Line item ${item.sku} total`
+    );
+    const line: LineTotal = {
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      gross,
+      discount: 0,
+      net: gross,
+      tax: 0,
+      total: gross,
+    };
+    if (item.options) {
+      line.options = { ...item.options };
+    }
+    return line;
+  });
+
+  const applied: AppliedDiscount[] = [];
+  let shipping =
+    options.shipping !== undefined
+      ? assertMinorUnits(options.shipping, 'Shipping charge')
+      : 0;
+  for (const discount of discounts) {
+    if (discount.shipping) {
+      const requested =
+        discount.amount !== undefined
+          ? discount.amount
+          : multiplyByRate(shipping, discount.rate as string, rounding);
+      const amount = Math.min(requested, shipping);
+      shipping -= amount;
+      applied.push({ id: discount.id, amount });
+      continue;
+    }
+    const targets = lines.filter(
+      line =>
+        (discount.sku === undefined || line.sku === discount.sku) &&
+        (discount.skus === undefined || discount.skus.includes(line.sku))
+    );
+    const base = targets.reduce((sum, line) => sum + line.net, 0);
+    const requested =
+      discount.amount !== undefined
+        ? discount.amount
+        : multiplyByRate(base, discount.rate as string, rounding);
+    const amount = Math.min(requested, base);
+    const shares = allocate(
+      amount,
+      targets.map(line => line.net)
+    );
+    targets.forEach((line, index) => {
+      line.discount += shares[index];
+      line.net -= shares[index];
+    });
+    applied.push({ id: discount.id, amount });
+  }
+
+  if (options.taxCalculator) {
+    const taxable = lines.map((line, index) => {
+      const entry: TaxableLine = {
+        sku: line.sku,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        net: line.net,
+      };
+      if (line.options) {
+        entry.options = line.options;
+      }
+      if (items[index].category !== undefined) {
+        entry.category = items[index].category;
+      }
+      return entry;
+    });
+    const taxes = options.taxCalculator.getLineTaxes(taxable, {
+      currency: options.currency,
+      rounding,
+    });
+    lines.forEach((line, index) => applyLineTax(line, taxes[index], rounding));
+  } else {
+    for (const line of lines) {
+      if (options.taxRate !== undefined) {
+        line.tax = multiplyByRate(line.net, options.taxRate, rounding);
+      }
+      line.total = line.net + line.tax;
+    }
+  }
+
+  const sum = (field: 'gross' | 'discount' | 'tax' | 'total') =>
+    lines.reduce((total, line) => total + line[field], 0);
+  const totals: CartTotals = {
+    currency: options.currency,
+    subtotal: sum('gross'),
+    discount: sum('discount'),
+    tax: sum('tax'),
+    total: sum('total') + shipping,
+    lines,
+    discounts: applied,
+  };
+  if (options.shipping !== undefined) {
+    totals.shipping = shipping;
+  }
+  return totals;
+}
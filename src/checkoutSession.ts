@@ -0,0 +1,180 @@
+import { JWTPayload } from 'jose';
+import { v4 as uuidv4 } from 'uuid';
+import CloudlessCrypto, { hashSHA256 } from './cloudlessCrypto';
+import { SignedObject } from './jsonSignature';
+import { stripJwtClaims } from './tokenCrypto';
+import CloudlessCart, {
+  CartPayload,
+  hashCartPayload,
+  parseCartPayload,
+} from './cloudlessCart';
+
+export const CHECKOUT_SESSION_TYPE = 'checkout-session';
+
+/**
+ * Frozen cart between placing the order and capturing the payment. Times
+ * are milliseconds since the epoch.
+ */
+export interface CheckoutSessionPayload {
+  type: typeof CHECKOUT_SESSION_TYPE;
+  sessionId: string;
+  /** Passed to the payment provider so retries charge only once */
+  idempotencyKey: string;
+  /** Service the session is meant for, e.g. 'payments' */
+  audience: string;
+  cartId: string;
+  revision: number;
+  /** hashCartPayload of the frozen revision */
+  cartHash: string;
+  cart: CartPayload;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CheckoutSessionRequest {
+  audience: string;
+  /** Defaults to a hash of the cart id and revision hash */
+  idempotencyKey?: string;
+  /** Lifetime in ms, defaults to 15 minutes */
+  ttl?: number;
+  /** Creation time, defaults to Date.now() */
+  now?: number;
+}
+
+export interface CheckoutSessionVerifyOptions {
+  audience: string;
+  /** The cart as it is now; its signed revision must still be the frozen one */
+  cart: CloudlessCart;
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+}
+
+export interface CheckoutSessionCheck {
+  valid: boolean;
+  error?: string;
+  session?: CheckoutSessionPayload;
+}
+
+export interface CheckoutSessionKeys {
+  /** kid of the key the session is signed with */
+  signingKey: string;
+  /** kid of the key the session is encrypted to */
+  encryptionKey: string;
+}
+
+const DEFAULT_TTL = 15 * 60 * 1000;
+
+/**
+ * Freezes signed carts into short-lived checkout session tokens. Sessions
+ * are encrypt-then-sign tokens, restricted to one audience.
+ */
+export default class CheckoutSessions {
+  private readonly crypto: CloudlessCrypto;
+  private readonly keys: CheckoutSessionKeys;
+
+  constructor(crypto: CloudlessCrypto, keys: CheckoutSessionKeys) {
+    this.crypto = crypto;
+    this.keys = keys;
+  }
+
+  /**
+   * Freeze the last signed revision of a cart. Throws if the cart was never
+   * signed or changed since.
+   */
+  public async createSession(
+    cart: CloudlessCart,
+    request: CheckoutSessionRequest
+  ): Promise<SignedObject> {
+    const payload = cart.getSignedPayload();
+    const cartHash = cart.getRevisionHash();
+    if (!payload || cartHash === undefined) {
+      throw new Error('Cart has no signed revision to check out');
+    }
+    if (cart.hasUnsignedChanges()) {
+      throw new Error('Cart has unsigned changes');
+    }
+    if (typeof request.audience !== 'string' || request.audience.length === 0) {
+      throw new Error('Checkout session audience must be a non-empty string');
+    }
+    const ttl = request.ttl ?? DEFAULT_TTL;
+    if (!Number.isInteger(ttl) || ttl <= 0) {
+      throw new Error('Checkout session ttl must be a positive integer');
+    }
+    const createdAt = request.now ?? Date.now();
+    const session: CheckoutSessionPayload = {
+      type: CHECKOUT_SESSION_TYPE,
+      sessionId: uuidv4(),
+      idempotencyKey:
+        request.idempotencyKey ??
+        (await hashSHA256(`${payload.cartId}:${cartHash}`)),
+      audience: request.audience,
+      cartId: payload.cartId,
+      revision: payload.revision,
+      cartHash,
+      cart: payload,
+      createdAt,
+      expiresAt: createdAt + ttl,
+    };
+    return (await this.crypto.encryptThenSign(
+      this.keys.encryptionKey,
+      this.keys.signingKey,
+      session as unknown as JWTPayload,
+      {
+        audience: request.audience,
+        expirationTime: `${Math.ceil(ttl / 1000)}s`,
+      }
+    )) as SignedObject;
+  }
+
+  /**
+   * Verify and decrypt a session, then check its audience, expiry and that
+   * the cart has not moved past the frozen revision
+   */
+  public async verifyCheckoutSession(
+    token: SignedObject,
+    options: CheckoutSessionVerifyOptions
+  ): Promise<CheckoutSessionCheck> {
+    let decrypted: Record<string, unknown>;
+    try {
+      decrypted = await this.crypto.verifyThenDecrypt(
+        this.keys.signingKey,
+        this.keys.encryptionKey,
+        token
+      );
+    } catch (e) {
+      return { valid: false, error: (e as Error).message };
+    }
+    const session = stripJwtClaims(
+      decrypted
+    ) as unknown as CheckoutSessionPayload;
+    if (session.type !== CHECKOUT_SESSION_TYPE) {
+      return { valid: false, error: 'Not a checkout session' };
+    }
+    const invalid = (error: string) => ({ valid: false, error, session });
+    if (session.audience !== options.audience) {
+      return invalid(`Checkout session is not for ${options.audience}`);
+    }
+    if ((options.now ?? Date.now()) > session.expiresAt) {
+      return invalid('Checkout session has expired');
+    }
+    try {
+      if (
+        (await hashCartPayload(parseCartPayload(session.cart))) !==
+        session.cartHash
+      ) {
+        return invalid('Checkout session cart does not match its hash');
+      }
+    } catch (e) {
+      return invalid((e as Error).message);
+    }
+    const cart = options.cart;
+    if (
+      cart.getCartId() !== session.cartId ||
+      cart.getRevisionHash() !== session.cartHash ||
+      cart.hasUnsignedChanges()
+    ) {
+      return invalid('Cart changed since the checkout session was created');
+    }
+    return { valid: true, session };
+  }
+}
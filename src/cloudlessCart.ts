@@ -0,0 +1,1479 @@
+import stringify from 'fast-json-stable-stringify';
+import { v4 as uuidv4 } from 'uuid';
+import CloudlessCrypto, { hashSHA256 } from './cloudlessCrypto';
+import { SignedObject } from './jsonSignature';
+import { EncryptionOptions } from './tokenCrypto';
+import {
+  CartItemInput,
+  CartItemOptions,
+  CartLineItem,
+  cloneLineItem,
+  isPositiveInteger,
+  lineItemKey,
+  normalizeLineItem,
+} from './cartItem';
+import {
+  calculateCartTotals,
+  CartDiscount,
+  CartTotals,
+  validateDiscount,
+} from './cartTotals';
+import {
+  getCurrencyExponent,
+  isMinorUnits,
+  parseDecimal,
+  RoundingMode,
+} from './money';
+import { assertSchema } from './schema';
+import { cartPayloadSchema } from './cartSchema';
+import {
+  applyJsonPatch,
+  CART_PATCH_TYPE,
+  CartPatchPayload,
+  diffJson,
+  parseCartPatch,
+} from './cartPatch';
+import PromotionEngine, {
+  couponDiscountId,
+  CouponVerifyOptions,
+  PromotionResult,
+} from './promotion';
+import { hasTaxBreakdown, RecordedTaxCalculator, TaxCalculator } from './tax';
+import CartReplica, {
+  CartReplicaState,
+  parseReplicaState,
+  ReplicaView,
+} from './cartReplica';
+import { ShippingQuoteClaims } from './shippingQuote';
+import InventoryReservations, {
+  CartReservationResult,
+  ReservationVerifyOptions,
+} from './inventoryReservation';
+import {
+  groupItemsByMerchant,
+  openMarketplaceCart,
+  sealMarketplaceCart,
+} from './merchantSegments';
+import {
+  buildSharedCollection,
+  CartItemLists,
+  COLLECTION_PAYLOAD_VERSION,
+  COLLECTION_TYPE,
+  CollectionName,
+  CollectionPayload,
+  isCollectionName,
+  ITEM_LISTS,
+  ItemListName,
+  parseCollectionPayload,
+  parseItemLists,
+  SHARED_COLLECTION_TYPE,
+  ShareOptions,
+} from './itemCollections';
+
+const MERGE_POLICIES: MergePolicy[] = ['sum', 'max', 'newest', 'account'];
+
+/**
+ * Shape of the payload embedded in a signed cart
+ */
+export interface CartPayload {
+  version: number;
+  cartId: string;
+  /** Starts at 1 and increases by one every time the cart is signed */
+  revision: number;
+  /** hashCartPayload of the previous revision, absent on revision 1 */
+  previousHash?: string;
+  /** Time of the last change to the cart contents, ms since the epoch */
+  updatedAt: number;
+  currency: string;
+  taxRate?: string;
+  rounding: RoundingMode;
+  items: CartLineItem[];
+  discounts: CartDiscount[];
+  totals: CartTotals;
+  /** Carts merged into this one, oldest first */
+  merges?: CartMergeRecord[];
+  /** Replicated state of carts edited on several devices, see CartReplica */
+  replica?: CartReplicaState;
+  /** Signed quote whose price is charged for shipping, see ShippingQuoter */
+  shippingQuote?: SignedObject;
+  /** Saved and wishlist lines, unless they are signed separately */
+  collections?: CartItemLists;
+}
+
+/**
+ * How lines present in both carts are combined by CloudlessCart.merge:
+ * - sum: add the quantities
+ * - max: keep the larger quantity
+ * - newest: keep the line from the most recently updated cart
+ * - account: keep the line from the account (target) cart
+ */
+export type MergePolicy = 'sum' | 'max' | 'newest' | 'account';
+
+/**
+ * Provenance of a merge, identifies the cart revision that was merged in
+ */
+export interface CartMergeRecord {
+  cartId: string;
+  /** Revision of the merged cart, 0 if it was never signed */
+  revision: number;
+  /** hashCartPayload of that revision */
+  hash?: string;
+  policy: MergePolicy;
+  mergedAt: number;
+}
+
+export interface CloudlessCartOptions {
+  /** ISO 4217 currency code, defaults to USD */
+  currency?: string;
+  /** Decimal tax rate applied to each discounted line, e.g. '0.0825' */
+  taxRate?: string;
+  /** Rounding used for rate based discounts and tax, defaults to half-even */
+  rounding?: RoundingMode;
+  /** Derives line taxes, takes precedence over taxRate */
+  taxCalculator?: TaxCalculator;
+  /** Keys and mode used by signedCart and verifyCart */
+  signing?: CartSigningConfig;
+  /** Stable cart identity, a random uuid by default */
+  cartId?: string;
+  /**
+   * Track edits in a CartReplica under this id (e.g. a device id) so copies
+   * edited offline can be merged with mergeReplica
+   */
+  replicaId?: string;
+}
+
+/**
+ * How a cart is protected when it is turned into a token:
+ * - sign: signed object, contents readable by anyone
+ * - sign-then-encrypt: JWE string wrapping the signed object
+ * - encrypt-then-sign: signed envelope around a JWE (recommended)
+ */
+export type CartTokenMode = 'sign' | 'sign-then-encrypt' | 'encrypt-then-sign';
+
+/**
+ * Where the saved and wishlist collections travel:
+ * - together: inside every cart token
+ * - separate: in tokens of their own, see CloudlessCart.signedCollection
+ */
+export type CollectionSigning = 'together' | 'separate';
+
+/**
+ * A cart token as produced by CloudlessCart.signedCart, a JWE string for
+ * sign-then-encrypt, a signed object otherwise
+ */
+export type CartToken = SignedObject | string;
+
+export interface CartSigningConfig {
+  crypto: CloudlessCrypto;
+  /** kid of a persistent signing key in the crypto key store */
+  signingKey: string;
+  /** kid of an encryption key, required for the encrypting modes */
+  encryptionKey?: string;
+  /** Defaults to sign */
+  mode?: CartTokenMode;
+  encryptionOptions?: EncryptionOptions;
+  /** Defaults to together */
+  collections?: CollectionSigning;
+}
+
+export interface CartRestoreOptions {
+  /**
+   * Prices the lines of the restored cart. The recorded tax rates are only
+   * used to check the signed totals; without a calculator a cart with a tax
+   * breakdown replays them and can't price lines it did not have.
+   */
+  taxCalculator?: TaxCalculator;
+  /**
+   * Replica id the restored cart continues a replicated state under,
+   * defaults to a fresh one so two devices restoring the same token never
+   * share an id
+   */
+  replicaId?: string;
+}
+
+export const CART_PAYLOAD_VERSION = 1;
+
+/**
+ * Work out which mode produced a cart token
+ */
+export function detectCartTokenMode(token: CartToken): CartTokenMode {
+  if (typeof token === 'string') {
+    return 'sign-then-encrypt';
+  }
+  if (
+    !token ||
+    typeof token.signature !== 'string' ||
+    !token.payload ||
+    typeof token.payload !== 'object'
+  ) {
+    throw new Error('Not a cart token');
+  }
+  const payload = token.payload;
+  if (
+    typeof payload.encrypted === 'string' &&
+    typeof payload.payloadHash === 'string'
+  ) {
+    return 'encrypt-then-sign';
+  }
+  return 'sign';
+}
+
+async function signCartPayload(
+  cartPayload: CartPayload | CartPatchPayload | CollectionPayload,
+  signing: CartSigningConfig
+): Promise<CartToken> {
+  const payload = cartPayload as unknown as Record<string, unknown>;
+  switch (signing.mode) {
+    case 'sign-then-encrypt':
+      return await signing.crypto.signAndEncrypt(
+        signing.signingKey,
+        signing.encryptionKey as string,
+        payload,
+        signing.encryptionOptions
+      );
+    case 'encrypt-then-sign':
+      return (await signing.crypto.encryptThenSign(
+        signing.encryptionKey as string,
+        signing.signingKey,
+        payload,
+        signing.encryptionOptions
+      )) as SignedObject;
+    default:
+      return (await signing.crypto.signObject(
+        signing.signingKey,
+        payload
+      )) as SignedObject;
+  }
+}
+
+async function verifyCartToken(
+  token: CartToken,
+  signing: CartSigningConfig,
+  mode: CartTokenMode
+): Promise<Record<string, unknown>> {
+  let verified: Record<string, unknown>;
+  switch (mode) {
+    case 'sign-then-encrypt':
+      if (typeof token !== 'string') {
+        throw new Error('Expected an encrypted cart token');
+      }
+      verified = await signing.crypto.decryptAndVerify(
+        signing.encryptionKey as string,
+        signing.signingKey,
+        token
+      );
+      break;
+    case 'encrypt-then-sign':
+      if (typeof token === 'string') {
+        throw new Error('Expected a signed cart token');
+      }
+      verified = await signing.crypto.verifyThenDecrypt(
+        signing.signingKey,
+        signing.encryptionKey as string,
+        token
+      );
+      break;
+    default:
+      if (typeof token === 'string') {
+        throw new Error('Expected a signed cart token');
+      }
+      verified = await signing.crypto.verifyObject(token, signing.signingKey);
+  }
+  if (verified.error) {
+    throw new Error(`Cart verification failed: ${String(verified.error)}`);
+  }
+  return verified;
+}
+
+/**
+ * Validate an untrusted (e.g. just verified) payload and return it as a
+ * normalized CartPayload. Throws if the shape is not a cart payload.
+ */
+export function parseCartPayload(value: unknown): CartPayload {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Cart payload must be an object');
+  }
+  const raw = value as Record<string, unknown>;
+  if (raw.version !== CART_PAYLOAD_VERSION) {
+    throw new Error(`Unsupported cart payload version ${String(raw.version)}`);
+  }
+  assertSchema(cartPayloadSchema, raw, 'Cart payload');
+  if (raw.previousHash !== undefined && raw.revision === 1) {
+    throw new Error('Cart payload previousHash is invalid');
+  }
+  if (raw.previousHash === undefined && raw.revision !== 1) {
+    throw new Error('Cart payload previousHash is missing');
+  }
+  const currency = raw.currency as string;
+  getCurrencyExponent(currency);
+  const payload: CartPayload = {
+    version: CART_PAYLOAD_VERSION,
+    cartId: raw.cartId as string,
+    revision: raw.revision as number,
+    updatedAt: raw.updatedAt as number,
+    currency,
+    rounding: raw.rounding as RoundingMode,
+    items: (raw.items as CartItemInput[]).map(normalizeLineItem),
+    discounts: (raw.discounts as CartDiscount[]).map(validateDiscount),
+    totals: raw.totals as CartTotals,
+  };
+  if (raw.taxRate !== undefined) {
+    parseDecimal(raw.taxRate as string);
+    payload.taxRate = raw.taxRate as string;
+  }
+  if (raw.previousHash !== undefined) {
+    payload.previousHash = raw.previousHash as string;
+  }
+  if (raw.merges !== undefined) {
+    payload.merges = (raw.merges as unknown[]).map(parseMergeRecord);
+  }
+  if (raw.replica !== undefined) {
+    payload.replica = parseReplicaState(raw.replica);
+  }
+  if (raw.shippingQuote !== undefined) {
+    payload.shippingQuote = parseShippingQuote(raw.shippingQuote);
+  }
+  if (raw.collections !== undefined) {
+    payload.collections = parseItemLists(raw.collections);
+  }
+  return payload;
+}
+
+function parseShippingQuote(value: unknown): SignedObject {
+  const quote = (value || {}) as Partial<SignedObject>;
+  const claims = (quote.payload || {}) as Partial<ShippingQuoteClaims>;
+  if (
+    typeof quote.signature !== 'string' ||
+    typeof quote.protected !== 'string' ||
+    !isMinorUnits(claims.price) ||
+    claims.price < 0
+  ) {
+    throw new Error('Cart payload shippingQuote is invalid');
+  }
+  return {
+    signature: quote.signature,
+    protected: quote.protected,
+    payload: JSON.parse(JSON.stringify(quote.payload)) as Record<
+      string,
+      unknown
+    >,
+  };
+}
+
+/**
+ * Shipping charge of a payload, the price of its shipping quote
+ */
+export function shippingCharge(payload: {
+  shippingQuote?: SignedObject;
+}): number | undefined {
+  return (payload.shippingQuote?.payload as ShippingQuoteClaims | undefined)
+    ?.price;
+}
+
+function parseMergeRecord(value: unknown): CartMergeRecord {
+  const raw = (value || {}) as Record<string, unknown>;
+  if (
+    typeof raw.cartId !== 'string' ||
+    typeof raw.revision !== 'number' ||
+    !Number.isInteger(raw.revision) ||
+    raw.revision < 0 ||
+    !MERGE_POLICIES.includes(raw.policy as MergePolicy) ||
+    typeof raw.mergedAt !== 'number' ||
+    (raw.hash !== undefined && typeof raw.hash !== 'string')
+  ) {
+    throw new Error('Cart payload merge record is invalid');
+  }
+  const record: CartMergeRecord = {
+    cartId: raw.cartId,
+    revision: raw.revision,
+    policy: raw.policy as MergePolicy,
+    mergedAt: raw.mergedAt,
+  };
+  if (raw.hash !== undefined) {
+    record.hash = raw.hash;
+  }
+  return record;
+}
+
+/**
+ * The part of a payload that patches change; everything else is fixed or
+ * derived from it. Totals with a tax breakdown are kept, the recorded rates
+ * are needed to re-derive them.
+ */
+function patchableFields(payload: CartPayload): Record<string, unknown> {
+  const fields = { ...payload } as Partial<CartPayload>;
+  delete fields.version;
+  delete fields.cartId;
+  delete fields.revision;
+  delete fields.previousHash;
+  if (!hasTaxBreakdown(payload.totals)) {
+    delete fields.totals;
+  }
+  return fields as Record<string, unknown>;
+}
+
+/**
+ * SHA-256 of a normalized cart payload, links a revision to its predecessor
+ */
+export async function hashCartPayload(payload: CartPayload): Promise<string> {
+  return await hashSHA256(stringify(parseCartPayload(payload)));
+}
+
+export default class CloudlessCart {
+  private readonly items: CartLineItem[];
+  /** Lines of the collections other than cart */
+  private readonly lists: Record<ItemListName, CartLineItem[]>;
+  private readonly discounts: CartDiscount[];
+  private readonly currency: string;
+  private readonly rounding: RoundingMode;
+  private readonly cartId: string;
+  private taxRate?: string;
+  private taxCalculator?: TaxCalculator;
+  private signing: CartSigningConfig | null = null;
+  private readonly merges: CartMergeRecord[];
+  private revision = 0;
+  private revisionHash?: string;
+  private updatedAt: number;
+  private replica?: CartReplica;
+  private shippingQuote?: SignedObject;
+  /** Payload of the current revision, the base of the next patch */
+  private basePayload?: CartPayload;
+
+  public constructor(options: CloudlessCartOptions = {}) {
+    this.cartId = options.cartId || uuidv4();
+    this.updatedAt = Date.now();
+    this.items = [];
+    this.lists = { saved: [], wishlist: [] };
+    this.discounts = [];
+    this.merges = [];
+    this.currency = options.currency || 'USD';
+    getCurrencyExponent(this.currency);
+    this.rounding = options.rounding || 'half-even';
+    if (options.taxRate !== undefined) {
+      this.setTaxRate(options.taxRate);
+    }
+    this.taxCalculator = options.taxCalculator;
+    if (options.signing) {
+      this.setSigning(options.signing);
+    }
+    if (options.replicaId) {
+      this.setReplicaId(options.replicaId);
+    }
+  }
+
+  public getCurrency(): string {
+    return this.currency;
+  }
+
+  public getCartId(): string {
+    return this.cartId;
+  }
+
+  /**
+   * Revision of the last signed (or restored) payload, 0 if never signed
+   */
+  public getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * hashCartPayload of the last signed (or restored) revision
+   */
+  public getRevisionHash(): string | undefined {
+    return this.revisionHash;
+  }
+
+  /**
+   * Payload of the last signed (or restored) revision
+   */
+  public getSignedPayload(): CartPayload | undefined {
+    return this.basePayload && parseCartPayload(this.basePayload);
+  }
+
+  /**
+   * True when the cart changed since its last signed revision
+   */
+  public hasUnsignedChanges(): boolean {
+    if (!this.basePayload) {
+      return true;
+    }
+    const unstamped = (payload: CartPayload) =>
+      stringify({ ...payload, revision: 0, previousHash: 0, updatedAt: 0 });
+    return unstamped(this.basePayload) !== unstamped(this.toPayload());
+  }
+
+  public getUpdatedAt(): number {
+    return this.updatedAt;
+  }
+
+  public getMerges(): CartMergeRecord[] {
+    return this.merges.map(merge => ({ ...merge }));
+  }
+
+  public getReplicaId(): string | undefined {
+    return this.replica?.getReplicaId();
+  }
+
+  /**
+   * Start tracking edits as the given replica, or continue the replicated
+   * state under another id (e.g. one kept per device)
+   */
+  public setReplicaId(replicaId: string): void {
+    if (this.replica) {
+      this.replica = new CartReplica(replicaId, this.replica.getState());
+      return;
+    }
+    this.replica = new CartReplica(replicaId);
+    this.replica.update(this.view());
+  }
+
+  /**
+   * Add an item to the cart, or to another collection. Adding a SKU +
+   * options combination that is already in the collection increases the
+   * quantity of the existing line; if the new item carries a price
+   * attestation it replaces the line's price. Reservations only hold cart
+   * lines and are dropped from items added elsewhere.
+   */
+  public addItem(
+    input: CartItemInput,
+    collection: CollectionName = 'cart'
+  ): CartLineItem {
+    const lines = this.lines(collection);
+    const item = normalizeLineItem(input);
+    if (collection !== 'cart') {
+      delete item.reservation;
+    }
+    const existing = this.findLine(item.sku, item.options, collection);
+    if (existing) {
+      existing.quantity += item.quantity;
+      if (item.attestation) {
+        existing.unitPrice = item.unitPrice;
+        existing.attestation = item.attestation;
+      }
+      if (item.reservation) {
+        existing.reservation = item.reservation;
+      }
+      this.touch();
+      return cloneLineItem(existing);
+    }
+    lines.push(item);
+    this.touch();
+    return cloneLineItem(item);
+  }
+
+  /**
+   * Set the quantity of a line, a quantity of 0 removes the line
+   */
+  public updateQuantity(
+    sku: string,
+    quantity: number,
+    options?: CartItemOptions,
+    collection: CollectionName = 'cart'
+  ): CartLineItem | undefined {
+    const existing = this.findLine(sku, options, collection);
+    if (!existing) {
+      throw new Error(`Item ${sku} not found in ${collection}`);
+    }
+    if (quantity === 0) {
+      this.removeItem(sku, options, collection);
+      return undefined;
+    }
+    if (!isPositiveInteger(quantity)) {
+      throw new Error(`Line item ${sku} quantity must be a positive integer`);
+    }
+    existing.quantity = quantity;
+    this.touch();
+    return cloneLineItem(existing);
+  }
+
+  public removeItem(
+    sku: string,
+    options?: CartItemOptions,
+    collection: CollectionName = 'cart'
+  ): boolean {
+    const lines = this.lines(collection);
+    const existing = this.findLine(sku, options, collection);
+    if (!existing) {
+      return false;
+    }
+    lines.splice(lines.indexOf(existing), 1);
+    this.touch();
+    return true;
+  }
+
+  public findItem(
+    sku: string,
+    options?: CartItemOptions,
+    collection: CollectionName = 'cart'
+  ): CartLineItem | undefined {
+    const existing = this.findLine(sku, options, collection);
+    return existing ? cloneLineItem(existing) : undefined;
+  }
+
+  /**
+   * Move a line to another collection, e.g. from cart to saved. A line with
+   * the same SKU + options in the target gets the moved quantity added.
+   */
+  public moveItem(
+    sku: string,
+    from: CollectionName,
+    to: CollectionName,
+    options?: CartItemOptions
+  ): CartLineItem {
+    if (from === to) {
+      throw new Error(`Item ${sku} is already in ${to}`);
+    }
+    const source = this.lines(from);
+    const existing = this.findLine(sku, options, from);
+    if (!existing) {
+      throw new Error(`Item ${sku} not found in ${from}`);
+    }
+    const moved = this.addItem(existing, to);
+    source.splice(source.indexOf(existing), 1);
+    this.touch();
+    return moved;
+  }
+
+  /**
+   * Merchants of a marketplace cart, in order of their first line
+   */
+  public getMerchantIds(): string[] {
+    return Array.from(groupItemsByMerchant(this.items).keys());
+  }
+
+  public getMerchantItems(merchantId: string): CartLineItem[] {
+    return this.items
+      .filter(item => item.merchantId === merchantId)
+      .map(cloneLineItem);
+  }
+
+  public getItems(collection: CollectionName = 'cart'): CartLineItem[] {
+    return this.lines(collection).map(cloneLineItem);
+  }
+
+  /**
+   * Remove the cart lines and discounts, saved and wishlist lines are kept
+   */
+  public clearCart(): void {
+    this.items.length = 0;
+    this.discounts.length = 0;
+    this.touch();
+  }
+
+  public setTaxRate(rate: string | undefined): void {
+    if (rate !== undefined && parseDecimal(rate).value < 0) {
+      throw new Error('Tax rate must not be negative');
+    }
+    this.taxRate = rate;
+    this.touch();
+  }
+
+  /**
+   * Add a discount, a discount with the same id replaces the existing one
+   */
+  public addDiscount(discount: CartDiscount): void {
+    const validated = validateDiscount(discount);
+    this.removeDiscount(validated.id);
+    this.discounts.push(validated);
+    this.touch();
+  }
+
+  public removeDiscount(id: string): boolean {
+    const index = this.discounts.findIndex(discount => discount.id === id);
+    if (index < 0) {
+      return false;
+    }
+    this.discounts.splice(index, 1);
+    this.touch();
+    return true;
+  }
+
+  public getDiscounts(): CartDiscount[] {
+    return this.discounts.map(discount => ({ ...discount }));
+  }
+
+  /**
+   * Verify a signed coupon and apply it together with the coupons already in
+   * the cart, which are re-evaluated against the current lines. Throws if
+   * the new coupon is rejected.
+   */
+  public async applyCoupon(
+    coupon: SignedObject,
+    engine: PromotionEngine,
+    options: CouponVerifyOptions
+  ): Promise<PromotionResult> {
+    const check = await engine.verifyCoupon(
+      coupon,
+      options.trustedKeys,
+      options.now
+    );
+    if (!check.valid || !check.claims) {
+      throw new Error(String(check.error));
+    }
+    const code = check.claims.code;
+    const result = await this.evaluateCoupons(
+      [...this.couponTokens(), coupon],
+      engine,
+      options
+    );
+    const rejected = result.rejected.find(entry => entry.code === code);
+    if (!result.discounts.some(discount => discount.coupon === coupon)) {
+      throw new Error(rejected?.error || `Coupon ${code} was rejected`);
+    }
+    this.setCouponDiscounts(result.discounts);
+    return result;
+  }
+
+  /**
+   * Re-evaluate the coupons in the cart, e.g. after the lines changed.
+   * Coupons that no longer apply are dropped and reported in rejected.
+   */
+  public async refreshCoupons(
+    engine: PromotionEngine,
+    options: CouponVerifyOptions
+  ): Promise<PromotionResult> {
+    const result = await this.evaluateCoupons(
+      this.couponTokens(),
+      engine,
+      options
+    );
+    this.setCouponDiscounts(result.discounts);
+    return result;
+  }
+
+  /**
+   * Check the reservations of the reserved lines. Expired or otherwise
+   * invalid reservations are dropped from their lines, which stay in the
+   * cart without a hold and are reported in lost.
+   */
+  public async refreshReservations(
+    reservations: InventoryReservations,
+    options: ReservationVerifyOptions
+  ): Promise<CartReservationResult> {
+    const result = await reservations.verifyCartReservations(
+      { cartId: this.cartId, items: this.items },
+      options
+    );
+    for (const lost of result.lost) {
+      const line = this.findLine(lost.sku, lost.options);
+      if (line) {
+        delete line.reservation;
+      }
+    }
+    if (result.lost.length > 0) {
+      this.touch();
+    }
+    return result;
+  }
+
+  public removeCoupon(code: string): boolean {
+    return this.removeDiscount(couponDiscountId(code));
+  }
+
+  public getTotals(): CartTotals {
+    return calculateCartTotals(this.items, this.discounts, {
+      currency: this.currency,
+      taxRate: this.taxRate,
+      rounding: this.rounding,
+      taxCalculator: this.taxCalculator,
+      shipping: shippingCharge({ shippingQuote: this.shippingQuote }),
+    });
+  }
+
+  /**
+   * Charge shipping at the price of a signed quote. The quote must be for
+   * the current signed revision of this cart; it is valid for the next
+   * signed revision as long as the lines are not changed, see
+   * ShippingQuoter.verifyCartShipping.
+   */
+  public attachShippingQuote(quote: SignedObject): void {
+    const claims = parseShippingQuote(quote)
+      .payload as unknown as ShippingQuoteClaims;
+    if (this.revisionHash === undefined) {
+      throw new Error('Cart has no signed revision to quote');
+    }
+    if (claims.cartId !== this.cartId) {
+      throw new Error('Shipping quote is for another cart');
+    }
+    if (claims.currency !== this.currency) {
+      throw new Error(`Shipping quote is for ${String(claims.currency)}`);
+    }
+    if (claims.cartHash !== this.revisionHash) {
+      throw new Error(
+        `Shipping quote for revision ${claims.revision} does not match revision ${this.revision}`
+      );
+    }
+    this.shippingQuote = parseShippingQuote(quote);
+    this.touch();
+  }
+
+  public removeShippingQuote(): boolean {
+    if (!this.shippingQuote) {
+      return false;
+    }
+    this.shippingQuote = undefined;
+    this.touch();
+    return true;
+  }
+
+  public getShippingQuote(): SignedObject | undefined {
+    return this.shippingQuote && parseShippingQuote(this.shippingQuote);
+  }
+
+  /**
+   * Let a TaxCalculator derive the tax of each line instead of the flat
+   * tax rate. The rates it picks are recorded in the line totals.
+   */
+  public setTaxCalculator(calculator: TaxCalculator | undefined): void {
+    this.taxCalculator = calculator;
+    this.touch();
+  }
+
+  /**
+   * The payload of the next revision, i.e. what signedCart will sign
+   */
+  public toPayload(): CartPayload {
+    const payload: CartPayload = {
+      version: CART_PAYLOAD_VERSION,
+      cartId: this.cartId,
+      revision: this.revision + 1,
+      updatedAt: this.updatedAt,
+      currency: this.currency,
+      rounding: this.rounding,
+      items: this.getItems(),
+      discounts: this.getDiscounts(),
+      totals: this.getTotals(),
+    };
+    if (this.taxRate !== undefined) {
+      payload.taxRate = this.taxRate;
+    }
+    if (this.revisionHash !== undefined) {
+      payload.previousHash = this.revisionHash;
+    }
+    if (this.merges.length > 0) {
+      payload.merges = this.getMerges();
+    }
+    if (this.replica) {
+      payload.replica = this.replica.getState();
+    }
+    if (this.shippingQuote) {
+      payload.shippingQuote = this.getShippingQuote();
+    }
+    const lists = this.getItemLists();
+    if (this.signing?.collections !== 'separate' && lists) {
+      payload.collections = lists;
+    }
+    return payload;
+  }
+
+  /**
+   * Configure the persistent keys and token mode used to sign the cart. The
+   * keys are looked up in the (possibly asynchronous) key store when they
+   * are first used.
+   */
+  public setSigning(config: CartSigningConfig): void {
+    const mode = config.mode || 'sign';
+    if (mode !== 'sign' && !config.encryptionKey) {
+      throw new Error(`Mode ${mode} requires an encryption key`);
+    }
+    this.signing = { ...config, mode };
+  }
+
+  /**
+   * Sign (and optionally encrypt) the cart payload with the configured keys
+   */
+  public async signedCart(): Promise<CartToken> {
+    const signing = await this.requireSigning();
+    const cartPayload = this.payloadToSign();
+    const token = await signCartPayload(cartPayload, signing);
+    await this.setRevision(cartPayload);
+    return token;
+  }
+
+  /**
+   * Sign the next revision as a marketplace envelope: each merchant's lines
+   * are encrypted to that merchant's key (merchantKeys maps merchant ids to
+   * encryption key ids), the whole cart to the configured encryption key.
+   * Every line must have a merchantId.
+   */
+  public async signedMarketplaceCart(
+    merchantKeys: Record<string, string>
+  ): Promise<SignedObject> {
+    const signing = await this.requireSigning();
+    const cartPayload = this.payloadToSign();
+    const token = await sealMarketplaceCart(cartPayload, merchantKeys, signing);
+    await this.setRevision(cartPayload);
+    return token;
+  }
+
+  /**
+   * Verify (and decrypt) a token produced by signedCart with the configured
+   * keys and return its payload. Throws if verification fails or the payload
+   * does not match cartPayloadSchema.
+   */
+  public async verifyCart(token: CartToken): Promise<Record<string, unknown>> {
+    const signing = await this.requireSigning();
+    const verified = await verifyCartToken(
+      token,
+      signing,
+      signing.mode || 'sign'
+    );
+    assertSchema(cartPayloadSchema, verified, 'Cart payload');
+    return verified;
+  }
+
+  /**
+   * Rebuild a cart from a verified (or otherwise trusted) payload. The
+   * signed totals must match the totals recomputed from the lines; the
+   * restored cart continues the payload's revision chain.
+   */
+  public static async fromPayload(
+    value: unknown,
+    signing?: CartSigningConfig,
+    options: CartRestoreOptions = {}
+  ): Promise<CloudlessCart> {
+    const payload = parseCartPayload(value);
+    const cart = new CloudlessCart({
+      cartId: payload.cartId,
+      currency: payload.currency,
+      taxRate: payload.taxRate,
+      rounding: payload.rounding,
+      taxCalculator: hasTaxBreakdown(payload.totals)
+        ? new RecordedTaxCalculator(payload.totals)
+        : undefined,
+      signing,
+    });
+    for (const item of payload.items) {
+      cart.addItem(item);
+    }
+    for (const name of ITEM_LISTS) {
+      for (const item of payload.collections?.[name] || []) {
+        cart.addItem(item, name);
+      }
+    }
+    for (const discount of payload.discounts) {
+      cart.addDiscount(discount);
+    }
+    cart.shippingQuote = payload.shippingQuote;
+    if (stringify(cart.getTotals()) !== stringify(payload.totals)) {
+      throw new Error('Cart totals do not match line items');
+    }
+    cart.taxCalculator =
+      options.taxCalculator ||
+      (hasTaxBreakdown(payload.totals)
+        ? new RecordedTaxCalculator(payload.totals, { strict: true })
+        : undefined);
+    cart.merges.push(...(payload.merges || []));
+    if (payload.replica) {
+      cart.replica = new CartReplica(
+        options.replicaId || uuidv4(),
+        payload.replica
+      );
+      if (stringify(cart.replica.getView()) !== stringify(cart.view())) {
+        throw new Error('Cart replica state does not match line items');
+      }
+    }
+    cart.updatedAt = payload.updatedAt;
+    await cart.setRevision(payload);
+    return cart;
+  }
+
+  /**
+   * Verify and decrypt any token produced by signedCart, whatever its mode,
+   * and return a live cart configured to re-sign with the given keys.
+   * The restored cart signs in config.mode, or the token's mode if unset.
+   */
+  public static async fromToken(
+    token: CartToken,
+    config: CartSigningConfig,
+    options?: CartRestoreOptions
+  ): Promise<CloudlessCart> {
+    const mode = detectCartTokenMode(token);
+    if (mode !== 'sign' && !config.encryptionKey) {
+      throw new Error(`Restoring a ${mode} token requires an encryption key`);
+    }
+    const verified = await verifyCartToken(token, config, mode);
+    return await CloudlessCart.fromPayload(
+      verified,
+      { ...config, mode: config.mode || mode },
+      options
+    );
+  }
+
+  /**
+   * Verify a marketplace envelope and restore the whole cart from it, needs
+   * the encryption key the envelope's cart was encrypted to
+   */
+  public static async fromMarketplaceToken(
+    token: SignedObject,
+    config: CartSigningConfig,
+    options?: CartRestoreOptions
+  ): Promise<CloudlessCart> {
+    if (!config.encryptionKey) {
+      throw new Error(
+        'Restoring a marketplace cart requires its encrypted cart'
+      );
+    }
+    const payload = await openMarketplaceCart(token, config.crypto, {
+      signingKey: config.signingKey,
+      encryptionKey: config.encryptionKey,
+    });
+    return await CloudlessCart.fromPayload(payload, config, options);
+  }
+
+  /**
+   * Merge another cart (e.g. a guest cart) into this one (e.g. the account
+   * cart). Lines are matched by SKU + options; lines in both carts are
+   * combined according to the policy, other lines are copied. Saved and
+   * wishlist lines missing from this cart are copied. Discounts are
+   * combined by id with this cart's discount winning. The merge is recorded
+   * in the payload's merges list.
+   */
+  public merge(other: CloudlessCart, policy: MergePolicy = 'sum'): void {
+    if (!MERGE_POLICIES.includes(policy)) {
+      throw new Error(`Unknown merge policy ${String(policy)}`);
+    }
+    if (other.currency !== this.currency) {
+      throw new Error(
+        `Cannot merge a ${other.currency} cart into a ${this.currency} cart`
+      );
+    }
+    const otherIsNewer = other.updatedAt > this.updatedAt;
+    for (const item of other.items) {
+      const existing = this.findLine(item.sku, item.options);
+      if (!existing) {
+        this.items.push(cloneLineItem(item));
+        continue;
+      }
+      switch (policy) {
+        case 'sum':
+          existing.quantity += item.quantity;
+          break;
+        case 'max':
+          existing.quantity = Math.max(existing.quantity, item.quantity);
+          break;
+        case 'newest':
+          if (otherIsNewer) {
+            this.items[this.items.indexOf(existing)] = cloneLineItem(item);
+          }
+          break;
+        default:
+          break;
+      }
+    }
+    for (const name of ITEM_LISTS) {
+      for (const item of other.lists[name]) {
+        if (!this.findLine(item.sku, item.options, name)) {
+          this.lists[name].push(cloneLineItem(item));
+        }
+      }
+    }
+    for (const discount of other.discounts) {
+      if (!this.discounts.some(existing => existing.id === discount.id)) {
+        this.discounts.push({ ...discount });
+      }
+    }
+    const record: CartMergeRecord = {
+      cartId: other.cartId,
+      revision: other.revision,
+      policy,
+      mergedAt: Date.now(),
+    };
+    if (other.revisionHash !== undefined) {
+      record.hash = other.revisionHash;
+    }
+    this.merges.push(record);
+    this.touch();
+  }
+
+  /**
+   * Verify an account cart token and a guest cart token, merge the guest
+   * cart into the account cart and re-sign the result as the account cart's
+   * next revision.
+   */
+  public static async mergeTokens(
+    accountToken: CartToken,
+    guestToken: CartToken,
+    config: CartSigningConfig,
+    policy: MergePolicy = 'sum',
+    options?: CartRestoreOptions
+  ): Promise<{ cart: CloudlessCart; token: CartToken }> {
+    const account = await CloudlessCart.fromToken(
+      accountToken,
+      config,
+      options
+    );
+    const guest = await CloudlessCart.fromToken(guestToken, config, options);
+    account.merge(guest, policy);
+    const token = await account.signedCart();
+    return { cart: account, token };
+  }
+
+  /**
+   * Merge the replica state of another copy of this cart, e.g. edited
+   * offline on another device. The result is the same whichever copy is
+   * merged into which. Saved and wishlist lines merge too, unless they are
+   * signed separately; then both copies must hold the same ones. The merged
+   * cart continues the revision chain of the copy with the higher revision.
+   */
+  public mergeReplica(other: CloudlessCart): void {
+    if (!this.replica || !other.replica) {
+      throw new Error('Both carts must be replicated to merge replicas');
+    }
+    if (other.cartId !== this.cartId) {
+      throw new Error('Cannot merge replicas of different carts');
+    }
+    if (other.currency !== this.currency || other.rounding !== this.rounding) {
+      throw new Error('Cannot merge replicas with different currency settings');
+    }
+    const separate = this.signing?.collections === 'separate';
+    if (
+      separate &&
+      stringify(this.getItemLists()) !== stringify(other.getItemLists())
+    ) {
+      throw new Error(
+        'Cannot merge replicas whose separately signed collections differ'
+      );
+    }
+    this.replica.merge(other.replica.getState());
+    const view = this.replica.getView();
+    this.items.length = 0;
+    this.items.push(...view.items);
+    this.discounts.length = 0;
+    this.discounts.push(...view.discounts);
+    this.taxRate = view.taxRate;
+    if (!separate) {
+      for (const name of ITEM_LISTS) {
+        this.lists[name].length = 0;
+        this.lists[name].push(...(view.collections?.[name] || []));
+      }
+    }
+    if (
+      other.revision > this.revision ||
+      (other.revision === this.revision &&
+        (other.revisionHash || '') < (this.revisionHash || ''))
+    ) {
+      this.revision = other.revision;
+      this.revisionHash = other.revisionHash;
+    }
+    this.touch();
+  }
+
+  /**
+   * Verify tokens of replicas of the same cart, merge them and sign the
+   * result, as options.replicaId or a fresh replica
+   */
+  public static async mergeReplicaTokens(
+    tokens: CartToken[],
+    config: CartSigningConfig,
+    options?: CartRestoreOptions
+  ): Promise<{ cart: CloudlessCart; token: CartToken }> {
+    if (tokens.length === 0) {
+      throw new Error('No cart tokens to merge');
+    }
+    const cart = await CloudlessCart.fromToken(tokens[0], config, options);
+    for (const token of tokens.slice(1)) {
+      cart.mergeReplica(await CloudlessCart.fromToken(token, config, options));
+    }
+    const token = await cart.signedCart();
+    return { cart, token };
+  }
+
+  private couponTokens(): SignedObject[] {
+    return this.discounts
+      .map(discount => discount.coupon)
+      .filter((coupon): coupon is SignedObject => coupon !== undefined);
+  }
+
+  private async evaluateCoupons(
+    tokens: SignedObject[],
+    engine: PromotionEngine,
+    options: CouponVerifyOptions
+  ): Promise<PromotionResult> {
+    return await engine.applyCoupons(
+      this.getItems(),
+      tokens,
+      this.currency,
+      options,
+      this.rounding
+    );
+  }
+
+  /**
+   * Replace the coupon discounts, they apply after the other discounts
+   */
+  private setCouponDiscounts(discounts: CartDiscount[]): void {
+    const others = this.discounts.filter(discount => !discount.coupon);
+    this.discounts.length = 0;
+    this.discounts.push(...others, ...discounts.map(validateDiscount));
+    this.touch();
+  }
+
+  private touch(): void {
+    this.updatedAt = Date.now();
+    this.replica?.update(this.view());
+  }
+
+  private view(): ReplicaView {
+    const view: ReplicaView = {
+      items: this.getItems(),
+      discounts: this.getDiscounts(),
+    };
+    if (this.taxRate !== undefined) {
+      view.taxRate = this.taxRate;
+    }
+    // Collections signed in tokens of their own are not replicated
+    const lists = this.getItemLists();
+    if (this.signing?.collections !== 'separate' && lists) {
+      view.collections = lists;
+    }
+    return view;
+  }
+
+  /**
+   * Sign only the changes since the last signed revision. The patch token
+   * references the base revision by hash and is protected with the
+   * configured mode, like a full token. Produces the same revision (and
+   * hash) as signedCart would.
+   */
+  public async signedPatch(): Promise<CartToken> {
+    const signing = await this.requireSigning();
+    if (!this.basePayload || this.revisionHash === undefined) {
+      throw new Error('Cart has no signed revision to patch');
+    }
+    const cartPayload = this.payloadToSign();
+    const patch: CartPatchPayload = {
+      type: CART_PATCH_TYPE,
+      version: CART_PAYLOAD_VERSION,
+      cartId: this.cartId,
+      baseRevision: this.revision,
+      baseHash: this.revisionHash,
+      revision: cartPayload.revision,
+      hash: await hashCartPayload(cartPayload),
+      ops: diffJson(
+        patchableFields(this.basePayload),
+        patchableFields(cartPayload)
+      ),
+    };
+    const token = await signCartPayload(patch, signing);
+    await this.setRevision(cartPayload);
+    return token;
+  }
+
+  /**
+   * Verify a patch token against this cart's current revision and return
+   * the patched cart. Throws if the patch does not apply to this revision
+   * or does not produce the signed result.
+   */
+  public async applyPatchToken(token: CartToken): Promise<CloudlessCart> {
+    const signing = await this.requireSigning();
+    const mode = detectCartTokenMode(token);
+    if (mode !== 'sign' && !signing.encryptionKey) {
+      throw new Error(`Applying a ${mode} patch requires an encryption key`);
+    }
+    const patch = parseCartPatch(await verifyCartToken(token, signing, mode));
+    if (!this.basePayload || this.revisionHash === undefined) {
+      throw new Error('Cart has no signed revision to patch');
+    }
+    if (
+      patch.cartId !== this.cartId ||
+      patch.baseRevision !== this.revision ||
+      patch.baseHash !== this.revisionHash
+    ) {
+      throw new Error(
+        `Patch for revision ${patch.baseRevision} does not apply to revision ${this.revision}`
+      );
+    }
+    const fields = applyJsonPatch(
+      patchableFields(this.basePayload),
+      patch.ops
+    ) as Partial<CartPayload>;
+    const recorded = fields.totals;
+    delete fields.totals;
+    const options = {
+      currency: fields.currency as string,
+      taxRate: fields.taxRate,
+      rounding: fields.rounding as RoundingMode,
+      taxCalculator:
+        recorded && hasTaxBreakdown(recorded)
+          ? new RecordedTaxCalculator(recorded)
+          : undefined,
+      shipping: shippingCharge(fields),
+    };
+    const patched = parseCartPayload({
+      ...fields,
+      version: CART_PAYLOAD_VERSION,
+      cartId: this.cartId,
+      revision: patch.revision,
+      previousHash: this.revisionHash,
+      totals: calculateCartTotals(
+        fields.items || [],
+        fields.discounts || [],
+        options
+      ),
+    });
+    if ((await hashCartPayload(patched)) !== patch.hash) {
+      throw new Error('Patched cart does not match the signed revision');
+    }
+    // A calculator the cart was restored with keeps pricing the patched cart
+    return await CloudlessCart.fromPayload(patched, signing, {
+      taxCalculator:
+        this.taxCalculator instanceof RecordedTaxCalculator
+          ? undefined
+          : this.taxCalculator,
+      replicaId: this.getReplicaId(),
+    });
+  }
+
+  /**
+   * Verify a full base token and a patch token made against it and return
+   * the patched cart
+   */
+  public static async fromPatchToken(
+    baseToken: CartToken,
+    patchToken: CartToken,
+    config: CartSigningConfig,
+    options?: CartRestoreOptions
+  ): Promise<CloudlessCart> {
+    const base = await CloudlessCart.fromToken(baseToken, config, options);
+    return await base.applyPatchToken(patchToken);
+  }
+
+  /**
+   * Sign (and optionally encrypt) one item list on its own, e.g. when the
+   * signing config keeps collections separate
+   */
+  public async signedCollection(name: ItemListName): Promise<CartToken> {
+    const signing = await this.requireSigning();
+    const payload: CollectionPayload = {
+      type: COLLECTION_TYPE,
+      version: COLLECTION_PAYLOAD_VERSION,
+      cartId: this.cartId,
+      collection: name,
+      updatedAt: this.updatedAt,
+      items: this.itemList(name).map(cloneLineItem),
+    };
+    return await signCartPayload(payload, signing);
+  }
+
+  /**
+   * Verify a token produced by signedCollection for this cart and replace
+   * the lines of its collection. Share tokens are read-only and rejected.
+   */
+  public async restoreCollection(token: CartToken): Promise<ItemListName> {
+    const signing = await this.requireSigning();
+    const mode = detectCartTokenMode(token);
+    if (mode !== 'sign' && !signing.encryptionKey) {
+      throw new Error(
+        `Restoring a ${mode} collection requires an encryption key`
+      );
+    }
+    const verified = await verifyCartToken(token, signing, mode);
+    if (verified.type === SHARED_COLLECTION_TYPE) {
+      throw new Error('Shared collections are read-only');
+    }
+    const payload = parseCollectionPayload(verified);
+    if (payload.cartId !== this.cartId) {
+      throw new Error('Collection is for another cart');
+    }
+    const lines = this.lists[payload.collection];
+    lines.length = 0;
+    lines.push(...payload.items);
+    this.touch();
+    return payload.collection;
+  }
+
+  /**
+   * Sign a read-only copy of an item list, e.g. a wishlist shared with
+   * friends. It is signed but not encrypted, anyone with the token can read
+   * it; see verifySharedCollection.
+   */
+  public async shareCollection(
+    name: ItemListName = 'wishlist',
+    options?: ShareOptions
+  ): Promise<SignedObject> {
+    const signing = await this.requireSigning();
+    const shared = buildSharedCollection(
+      name,
+      this.currency,
+      this.itemList(name),
+      options
+    );
+    return (await signing.crypto.signObject(
+      signing.signingKey,
+      shared as unknown as Record<string, unknown>
+    )) as SignedObject;
+  }
+
+  /**
+   * The next revision, checked against cartPayloadSchema before it is signed
+   */
+  private payloadToSign(): CartPayload {
+    const payload = this.toPayload();
+    assertSchema(cartPayloadSchema, payload, 'Cart payload');
+    return payload;
+  }
+
+  private async setRevision(payload: CartPayload): Promise<void> {
+    this.basePayload = payload;
+    this.revisionHash = await hashCartPayload(payload);
+    this.revision = payload.revision;
+  }
+
+  private async requireSigning(): Promise<CartSigningConfig> {
+    const signing = this.signing;
+    if (!signing) {
+      throw new Error('No signer set');
+    }
+    if (!(await signing.crypto.signer.hasKey(signing.signingKey))) {
+      throw new Error(`Signing key ${signing.signingKey} not found`);
+    }
+    if (
+      signing.mode !== 'sign' &&
+      !(await signing.crypto.encryptor.hasKey(signing.encryptionKey as string))
+    ) {
+      throw new Error(
+        `Encryption key ${String(signing.encryptionKey)} not found`
+      );
+    }
+    return signing;
+  }
+
+  private findLine(
+    sku: string,
+    options?: CartItemOptions,
+    collection: CollectionName = 'cart'
+  ): CartLineItem | undefined {
+    const key = lineItemKey(sku, options);
+    return this.lines(collection).find(
+      item => lineItemKey(item.sku, item.options) === key
+    );
+  }
+
+  private lines(collection: CollectionName): CartLineItem[] {
+    if (!isCollectionName(collection)) {
+      throw new Error(`Unknown collection ${String(collection)}`);
+    }
+    return collection === 'cart' ? this.items : this.lists[collection];
+  }
+
+  private itemList(name: ItemListName): CartLineItem[] {
+    if (!ITEM_LISTS.includes(name)) {
+      throw new Error(`Unknown item list ${String(name)}`);
+    }
+    return this.lists[name];
+  }
+
+  /**
+   * The non-empty item lists, undefined if all are empty
+   */
+  private getItemLists(): CartItemLists | undefined {
+    const lists: CartItemLists = {};
+    for (const name of ITEM_LISTS) {
+      if (this.lists[name].length > 0) {
+        lists[name] = this.getItems(name);
+      }
+    }
+    return Object.keys(lists).length > 0 ? lists : undefined;
+  }
+}
@@ -1,10 +1,22 @@
-import JsonSignature, { KeyStore, SignedObject } from './jsonSignature';
+import JsonSignature, {
+  KeyResolver,
+  KeyStore,
+  SignedObject,
+} from './jsonSignature';
 import TokenCrypto, { EncryptionOptions } from './tokenCrypto';
 import { JWTPayload } from 'jose';
 import stringify from 'fast-json-stable-stringify';
+import { assertSchema, Schema, validateSchema } from './schema';
+import {
+  exportJwks,
+  importJwks,
+  JsonWebKeySet,
+  JwksImportOptions,
+} from './jwks';
+import { KeyUse } from './keyState';
 
 // Browser-compatible hash function
-async function hashSHA256(data: string): Promise<string> {
+export async function hashSHA256(data: string): Promise<string> {
   if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
     // Browser environment - use Web Crypto API
     const encoder = new TextEncoder();
@@ -37,13 +49,33 @@ export { EncryptThenSignPayload };
 export default class CloudlessCrypto {
   public readonly signer: JsonSignature;
   public readonly encryptor: TokenCrypto;
+  /** Shared by signer and encryptor */
+  public readonly keyStore: KeyStore;
+  /** By payload type, undefined for payloads without one */
+  private readonly schemas = new Map<string | undefined, Schema>();
 
   constructor(keyStore?: KeyStore, debug = false) {
     const store = keyStore || new Map();
+    this.keyStore = store;
     this.signer = new JsonSignature(store, debug);
     this.encryptor = new TokenCrypto(store, debug);
   }
 
+  /**
+   * Enforce schema on the payloads signed or verified by this instance
+   * whose `type` field is type, or on those without a type when it is
+   * omitted. Signing throws on a mismatch, verifyObject and
+   * decryptAndVerify return an error. Call without a schema to stop
+   * enforcing.
+   */
+  public setSchema(schema?: Schema, type?: string): void {
+    if (schema) {
+      this.schemas.set(type, schema);
+    } else {
+      this.schemas.delete(type);
+    }
+  }
+
   public async generateSigningKeyPair(
     alg = 'PS256'
   ): Promise<{ key: string; publicKey: any }> {
@@ -56,12 +88,42 @@ export default class CloudlessCrypto {
     return await this.encryptor.generateKeyPairForEncryption(alg);
   }
 
+  /**
+   * Look up kids missing from the key store with resolver, e.g. a
+   * JwksResolver. Call without a resolver to stop.
+   */
+  public setKeyResolver(resolver?: KeyResolver): void {
+    this.signer.setKeyResolver(resolver);
+    this.encryptor.setKeyResolver(resolver);
+  }
+
+  /**
+   * Public signing and encryption keys of the store as a JWK Set, e.g. to
+   * serve as /.well-known/jwks.json
+   */
+  public async exportJwks(
+    options: { use?: KeyUse } = {}
+  ): Promise<JsonWebKeySet> {
+    return await exportJwks(this.keyStore, options);
+  }
+
+  /**
+   * Store the public keys of a JWK Set, returns their kids
+   */
+  public async importJwks(
+    jwks: unknown,
+    options?: JwksImportOptions
+  ): Promise<string[]> {
+    return await importJwks(this.keyStore, jwks, options);
+  }
+
   public async signAndEncrypt(
     signingKey: string,
     encryptionKey: string,
     payload: Record<string, unknown>,
     encryptionOptions?: EncryptionOptions
   ): Promise<string> {
+    this.assertPayload(payload);
     const signed = await this.signer.sign(signingKey, payload);
     return await this.encryptor.encryptToken(
       encryptionKey,
@@ -79,13 +141,16 @@ export default class CloudlessCrypto {
       decryptionKey,
       encryptedToken
     );
-    return await this.signer.verify(decrypted as any, verificationKey);
+    return this.checkVerified(
+      await this.signer.verify(decrypted as any, verificationKey)
+    );
   }
 
   public async signObject(
     key: string,
     obj: Record<string, unknown>
   ): Promise<any> {
+    this.assertPayload(obj);
     return await this.signer.sign(key, obj);
   }
 
@@ -93,7 +158,7 @@ export default class CloudlessCrypto {
     signed: SignedObject,
     key?: string
   ): Promise<Record<string, unknown>> {
-    return await this.signer.verify(signed, key);
+    return this.checkVerified(await this.signer.verify(signed, key));
   }
 
   public async encryptToken(
@@ -117,6 +182,8 @@ export default class CloudlessCrypto {
     payload: JWTPayload,
     encryptionOptions?: EncryptionOptions
   ): Promise<any> {
+    this.assertPayload(payload);
+
     // Step 1: Calculate hash of original payload for integrity verification
     const payloadString = stringify(payload); // Hash the exact input payload
     const payloadHash = await hashSHA256(payloadString);
@@ -152,7 +219,12 @@ export default class CloudlessCrypto {
     const verified = (await this.signer.verify(
       signedToken,
       signingKey
-    )) as unknown as EncryptThenSignPayload;
+    )) as unknown as EncryptThenSignPayload & { error?: unknown };
+    if (verified.error) {
+      throw new Error(
+        `Signature verification failed: ${String(verified.error)}`
+      );
+    }
 
     // Step 2: Decrypt the payload (includes JWT claims)
     const decrypted = await this.encryptor.decryptToken(
@@ -178,7 +250,31 @@ export default class CloudlessCrypto {
     if (actualHash !== verified.payloadHash) {
       throw new Error('Payload hash mismatch - data integrity violation');
     }
+    this.assertPayload(originalPayloadFields);
 
     return decrypted;
   }
+
+  private schemaFor(payload: unknown): Schema | undefined {
+    const type = (payload as { type?: unknown } | undefined)?.type;
+    return this.schemas.get(typeof type === 'string' ? type : undefined);
+  }
+
+  private assertPayload(payload: unknown): void {
+    const schema = this.schemaFor(payload);
+    if (schema) {
+      assertSchema(schema, payload, 'Payload');
+    }
+  }
+
+  private checkVerified(
+    verified: Record<string, unknown>
+  ): Record<string, unknown> {
+    const schema = this.schemaFor(verified);
+    if (!schema || verified.error) {
+      return verified;
+    }
+    const result = validateSchema(schema, verified, 'Payload');
+    return result.valid ? verified : { error: result.errors.join('; ') };
+  }
 }
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import { KeyPair, KeyStore } from './jsonSignature';
+import {
+  BundledKey,
+  fromBundledKey,
+  KeyBundle,
+  KEY_BUNDLE_VERSION,
+  openKeyBundle,
+  sealKeyBundle,
+  PassphraseOptions,
+  toBundledKey,
+} from './keyBundle';
+
+export type FileKeyStoreOptions = PassphraseOptions;
+
+/**
+ * Node key store that keeps keys in a JSON file encrypted at rest. The file
+ * is a JWE (PBES2-HS512+A256KW, A256GCM) keyed by a passphrase; it is read
+ * on first use and rewritten through a temporary file on every change;
+ * use one store instance per file. Keys must be extractable. The file is a
+ * key bundle, so loadKeyBundle can read it too.
+ */
+export default class FileKeyStore implements KeyStore {
+  private readonly path: string;
+  private readonly passphrase: string;
+  private readonly options: PassphraseOptions;
+  private loaded?: Promise<Map<string, KeyPair>>;
+  private readonly stored = new Map<string, BundledKey>();
+  /** Serializes writes, each one writes the state current when it runs */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    path: string,
+    passphrase: string,
+    options: FileKeyStoreOptions = {}
+  ) {
+    if (!passphrase) {
+      throw new Error('FileKeyStore requires a passphrase');
+    }
+    this.path = path;
+    this.passphrase = passphrase;
+    this.options = options;
+  }
+
+  public async get(key: string): Promise<KeyPair | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  public async set(key: string, value: KeyPair): Promise<void> {
+    const keys = await this.load();
+    const stored = await toBundledKey(value);
+    keys.set(key, value);
+    this.stored.set(key, stored);
+    await this.save();
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    const keys = await this.load();
+    if (!keys.delete(key)) {
+      return false;
+    }
+    this.stored.delete(key);
+    await this.save();
+    return true;
+  }
+
+  public async keys(): Promise<string[]> {
+    return Array.from((await this.load()).keys());
+  }
+
+  private load(): Promise<Map<string, KeyPair>> {
+    if (!this.loaded) {
+      this.loaded = this.read();
+      // Allow a retry, e.g. with the right passphrase in a new store
+      this.loaded.catch(() => {
+        this.loaded = undefined;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async read(): Promise<Map<string, KeyPair>> {
+    let jwe: string;
+    try {
+      jwe = await fs.readFile(this.path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw e;
+    }
+    let file: KeyBundle;
+    try {
+      file = await openKeyBundle(jwe, this.passphrase, this.options);
+    } catch (e) {
+      throw new Error(
+        `Key file ${this.path} could not be decrypted: ${(e as Error).message}`
+      );
+    }
+    const keys = new Map<string, KeyPair>();
+    for (const [kid, stored] of Object.entries(file.keys)) {
+      keys.set(kid, await fromBundledKey(stored));
+      this.stored.set(kid, stored);
+    }
+    return keys;
+  }
+
+  private save(): Promise<void> {
+    const write = this.queue.then(() => this.write());
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(): Promise<void> {
+    const file: KeyBundle = { version: KEY_BUNDLE_VERSION, keys: {} };
+    this.stored.forEach((stored, kid) => {
+      file.keys[kid] = stored;
+    });
+    const jwe = await sealKeyBundle(file, this.passphrase, this.options);
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, jwe, { mode: 0o600 });
+    await fs.rename(temporary, this.path);
+  }
+}
@@ -1,59 +1,266 @@
 import JsonSignature, { SignedObject } from './jsonSignature';
+import CloudlessCart from './cloudlessCart';
 
-class CloudlessCart {
-  private readonly items: any[];
-  private signer: JsonSignature | null = null;
-
-  public constructor() {
-    this.items = [];
-  }
-
-  public addItem(item: Record<string, unknown>): void {
-    this.items.push(item);
-  }
-
-  public getItems(): any[] {
-    return this.items;
-  }
-
-  public clearCart(): void {
-    this.items.length = 0;
-  }
-
-  public setSigner(signer: JsonSignature): void {
-    this.signer = signer;
-  }
-
-  public async signedCart(): Promise<any> {
-    if (!this.signer) {
-      throw new Error('No signer set');
-    }
-    const cart = {
-      items: this.items,
-    };
-    const pair = await this.signer.generateKeyPair();
-    const signed = await this.signer.sign(pair.key, cart);
-    return {
-      signed: signed,
-      keypair: pair,
-    };
-  }
-
-  public async verifyCart(
-    cart: SignedObject,
-    key: string
-  ): Promise<Record<string, unknown>> {
-    if (!this.signer) {
-      throw new Error('No signer set');
-    }
-    return await this.signer.verify(cart, key);
-  }
-}
-export { CloudlessCart, JsonSignature };
-export { default as TokenCrypto } from './tokenCrypto';
+export { CloudlessCart, JsonSignature, SignedObject };
+export {
+  CartMergeRecord,
+  CartPayload,
+  CartRestoreOptions,
+  CartSigningConfig,
+  CartToken,
+  CartTokenMode,
+  CloudlessCartOptions,
+  CollectionSigning,
+  detectCartTokenMode,
+  hashCartPayload,
+  MergePolicy,
+  parseCartPayload,
+  shippingCharge,
+} from './cloudlessCart';
+export { CartLineItem, CartItemInput, CartItemOptions } from './cartItem';
+export {
+  default as RevisionVerifier,
+  ChainCheck,
+  RevisionCheck,
+  RevisionRecord,
+  RevisionStore,
+  RevisionVerifierOptions,
+  verifyRevisionLink,
+} from './cartRevision';
+export {
+  applyJsonPatch,
+  CART_PATCH_TYPE,
+  CartPatchOperation,
+  CartPatchPayload,
+  diffJson,
+  parseCartPatch,
+} from './cartPatch';
+export {
+  default as CartReplica,
+  CartReplicaState,
+  parseReplicaState,
+  ReplicaCollections,
+  ReplicaCounter,
+  ReplicaLine,
+  ReplicaRegister,
+  ReplicaStamp,
+  ReplicaView,
+} from './cartReplica';
+export {
+  AppliedDiscount,
+  calculateCartTotals,
+  CartDiscount,
+  CartTotals,
+  LineTotal,
+} from './cartTotals';
+export {
+  allocate,
+  fromMinorUnits,
+  formatMoney,
+  Money,
+  multiplyByRate,
+  RoundingMode,
+  toMinorUnits,
+} from './money';
+export {
+  default as OrderReceipts,
+  ORDER_RECEIPT_TYPE,
+  OrderReceiptClaims,
+  PaymentReference,
+  ReceiptCheck,
+  ReceiptKeyPeriod,
+  ReceiptLine,
+  ReceiptRequest,
+} from './orderReceipt';
+export {
+  default as PriceAttestor,
+  AttestationCheck,
+  AttestationRequest,
+  AttestationVerifyOptions,
+  CartAttestationResult,
+  LineAttestationCheck,
+  PriceAttestationClaims,
+} from './priceAttestation';
+export {
+  default as PromotionEngine,
+  COUPON_DISCOUNT_PREFIX,
+  COUPON_TYPE,
+  CouponCheck,
+  CouponClaims,
+  couponDiscountId,
+  CouponRequest,
+  CouponStacking,
+  CouponVerifyOptions,
+  EvaluatedCoupon,
+  PromotionCheck,
+  PromotionResult,
+  PromotionRule,
+  RedemptionResult,
+  RejectedCoupon,
+} from './promotion';
+export {
+  default as CheckoutSessions,
+  CHECKOUT_SESSION_TYPE,
+  CheckoutSessionCheck,
+  CheckoutSessionKeys,
+  CheckoutSessionPayload,
+  CheckoutSessionRequest,
+  CheckoutSessionVerifyOptions,
+} from './checkoutSession';
+export {
+  default as InventoryReservations,
+  CartReservationResult,
+  LostReservation,
+  RESERVATION_TYPE,
+  ReservationCheck,
+  ReservationClaims,
+  ReservationHold,
+  ReservationRequest,
+  ReservationVerifyOptions,
+} from './inventoryReservation';
+export {
+  buildMerchantSegments,
+  groupItemsByMerchant,
+  MARKETPLACE_CART_TYPE,
+  MarketplaceCartCopy,
+  MarketplaceEnvelope,
+  MarketplaceSegment,
+  MERCHANT_SEGMENT_TYPE,
+  MerchantSegmentPayload,
+  OpenedSegment,
+  openMarketplaceCart,
+  openMerchantSegment,
+  verifyMarketplaceEnvelope,
+} from './merchantSegments';
+export {
+  CartItemLists,
+  COLLECTION_TYPE,
+  CollectionName,
+  CollectionPayload,
+  collectionPayloadSchema,
+  ITEM_LISTS,
+  ItemListName,
+  SHARED_COLLECTION_TYPE,
+  SharedCollectionCheck,
+  SharedCollectionPayload,
+  sharedCollectionSchema,
+  SharedCollectionVerifyOptions,
+  ShareOptions,
+  verifySharedCollection,
+} from './itemCollections';
+export {
+  checkRedemptionBatch,
+  checkRedemptionLimits,
+  FileRedemptionLedger,
+  InMemoryRedemptionLedger,
+  Redemption,
+  RedemptionCheck,
+  RedemptionLedger,
+  RedemptionLimits,
+  RedemptionRequest,
+} from './redemptionLedger';
+export {
+  default as ShippingQuoter,
+  SHIPPING_QUOTE_TYPE,
+  shippingContentHash,
+  ShippingQuoteCheck,
+  ShippingQuoteClaims,
+  ShippingQuoteRequest,
+  ShippingVerifyOptions,
+} from './shippingQuote';
+export {
+  default as TableTaxCalculator,
+  hasTaxBreakdown,
+  LineTaxRates,
+  RecordedTaxCalculator,
+  RecordedTaxOptions,
+  TaxableLine,
+  TaxCalculator,
+  TaxComponent,
+  TaxContext,
+  TaxJurisdiction,
+  TaxRate,
+  TaxTable,
+} from './tax';
+export {
+  default as PriceVerifier,
+  PriceCatalog,
+  PriceDecision,
+  PriceDrift,
+  PriceVerificationResult,
+  PriceVerifierOptions,
+  RemovedLine,
+  StaticPriceCatalog,
+} from './priceVerifier';
+export {
+  assertSchema,
+  schema,
+  Schema,
+  SchemaIssue,
+  SchemaResult,
+  validateSchema,
+} from './schema';
+export {
+  cartPayloadSchema,
+  cartTotalsSchema,
+  discountSchema,
+  itemListsSchema,
+  lineItemSchema,
+  signedObjectSchema,
+} from './cartSchema';
+export {
+  ExportedKeyPair,
+  KeyPair,
+  KeyResolver,
+  KeyStore,
+  VerifyOptions,
+} from './jsonSignature';
+export {
+  TrustedTokenCheck,
+  TrustedTokenOptions,
+  verifyTrustedToken,
+} from './trustedToken';
+export {
+  BundledKey,
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  exportKeyBundle,
+  KeyBundle,
+  loadKeyBundle,
+  PassphraseOptions,
+  ProtectedKeyPair,
+  protectKeyPair,
+  unprotectKeyPair,
+} from './keyBundle';
+export {
+  default as KeyRotation,
+  KeyRotationOptions,
+  KeyStatus,
+} from './keyRotation';
+export {
+  exportJwks,
+  importJwks,
+  JsonWebKeySet,
+  JwksImportOptions,
+  keyUse,
+  PublicJwk,
+} from './jwks';
+export { default as JwksResolver, JwksResolverOptions } from './jwksResolver';
+export { keyState, KeyRotationInfo, KeyState, KeyUse } from './keyState';
+export { default as FileKeyStore, FileKeyStoreOptions } from './fileKeyStore';
+export {
+  default as IndexedDbKeyStore,
+  IndexedDbKeyStoreOptions,
+} from './indexedDbKeyStore';
+export {
+  default as TokenCrypto,
+  JWT_CLAIMS,
+  stripJwtClaims,
+} from './tokenCrypto';
 export {
   default as CloudlessCrypto,
   EncryptThenSignPayload,
+  hashSHA256,
 } from './cloudlessCrypto';
 export { 
   enableBrotliWasm,
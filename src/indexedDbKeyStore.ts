@@ -0,0 +1,134 @@
+import { KeyPair, KeyStore } from './jsonSignature';
+
+export interface IndexedDbKeyStoreOptions {
+  /** Defaults to cloudless-cart-keys */
+  databaseName?: string;
+  /** Object store holding the keys, defaults to keys */
+  storeName?: string;
+  /** Defaults to the global indexedDB */
+  indexedDB?: IDBFactory;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a write transaction is committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function isCryptoKey(key: unknown): key is CryptoKey {
+  return typeof CryptoKey !== 'undefined' && key instanceof CryptoKey;
+}
+
+/**
+ * Re-import an extractable private key as non-extractable, so it can be
+ * used but never read back from the browser
+ */
+async function lockPrivateKey(key: CryptoKey): Promise<CryptoKey> {
+  if (!key.extractable) {
+    return key;
+  }
+  const jwk = await crypto.subtle.exportKey('jwk', key);
+  return await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    key.algorithm as RsaHashedImportParams | EcKeyImportParams,
+    false,
+    key.usages
+  );
+}
+
+/**
+ * Browser key store that keeps CryptoKeys in IndexedDB. Private keys are
+ * stored non-extractable: they sign and decrypt, but exportKeyPair fails
+ * for them. Public keys stay exportable.
+ */
+export default class IndexedDbKeyStore implements KeyStore {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory;
+  private database?: Promise<IDBDatabase>;
+
+  constructor(options: IndexedDbKeyStoreOptions = {}) {
+    const factory =
+      options.indexedDB ||
+      (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    if (!factory) {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+    this.factory = factory;
+    this.databaseName = options.databaseName || 'cloudless-cart-keys';
+    this.storeName = options.storeName || 'keys';
+  }
+
+  public async get(key: string): Promise<KeyPair | undefined> {
+    const store = await this.objectStore('readonly');
+    return (await requestResult(store.get(key))) as KeyPair | undefined;
+  }
+
+  public async set(key: string, value: KeyPair): Promise<void> {
+    if (value.privateKey && !isCryptoKey(value.privateKey)) {
+      throw new Error('IndexedDbKeyStore can only store CryptoKeys');
+    }
+    const pair: KeyPair = { ...value };
+    if (value.privateKey) {
+      pair.privateKey = await lockPrivateKey(value.privateKey);
+    }
+    const store = await this.objectStore('readwrite');
+    store.put(pair, key);
+    await transactionDone(store.transaction);
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    const store = await this.objectStore('readwrite');
+    const found = requestResult(store.getKey(key));
+    store.delete(key);
+    await transactionDone(store.transaction);
+    return (await found) !== undefined;
+  }
+
+  public async keys(): Promise<string[]> {
+    const store = await this.objectStore('readonly');
+    return (await requestResult(store.getAllKeys())).map(String);
+  }
+
+  /**
+   * Close the database connection, the next call opens it again
+   */
+  public async close(): Promise<void> {
+    const database = this.database;
+    this.database = undefined;
+    if (database) {
+      (await database).close();
+    }
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database
+      .transaction(this.storeName, mode)
+      .objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      this.database = requestResult(request);
+    }
+    return this.database;
+  }
+}
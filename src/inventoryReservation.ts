@@ -0,0 +1,226 @@
+import { v4 as uuidv4 } from 'uuid';
+import JsonSignature, { SignedObject } from './jsonSignature';
+import { verifyTrustedToken } from './trustedToken';
+import {
+  CartItemOptions,
+  CartLineItem,
+  isPositiveInteger,
+  lineItemKey,
+} from './cartItem';
+import { CartPayload } from './cloudlessCart';
+
+export const RESERVATION_TYPE = 'inventory-reservation';
+
+/**
+ * Claims signed by the inventory service. Times are milliseconds since the
+ * epoch.
+ */
+export interface ReservationClaims {
+  type: typeof RESERVATION_TYPE;
+  reservationId: string;
+  sku: string;
+  options?: CartItemOptions;
+  /** Units held */
+  quantity: number;
+  /** Cart the units are held for, any cart when unset */
+  cartId?: string;
+  reservedAt: number;
+  expiresAt: number;
+}
+
+export interface ReservationRequest {
+  sku: string;
+  options?: CartItemOptions;
+  quantity: number;
+  cartId?: string;
+  /** Defaults to now */
+  reservedAt?: number;
+  /** Defaults to reservedAt + 10 minutes */
+  expiresAt?: number;
+}
+
+export interface ReservationCheck {
+  valid: boolean;
+  error?: string;
+  claims?: ReservationClaims;
+}
+
+export interface ReservationVerifyOptions {
+  /** kids of inventory keys whose reservations are accepted */
+  trustedKeys: string[];
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+}
+
+/**
+ * A line whose reservation still holds
+ */
+export interface ReservationHold {
+  sku: string;
+  options?: CartItemOptions;
+  reservationId: string;
+  quantity: number;
+  expiresAt: number;
+}
+
+/**
+ * A line that lost its hold, because the reservation expired or is not
+ * valid for the line
+ */
+export interface LostReservation {
+  sku: string;
+  options?: CartItemOptions;
+  reservationId?: string;
+  error: string;
+}
+
+export interface CartReservationResult {
+  held: ReservationHold[];
+  lost: LostReservation[];
+}
+
+const DEFAULT_HOLD = 10 * 60 * 1000;
+
+/**
+ * Issues short-lived signed holds on scarce stock instead of decrementing
+ * it, and checks the holds referenced from cart lines
+ */
+export default class InventoryReservations {
+  private readonly signer: JsonSignature;
+
+  constructor(signer: JsonSignature) {
+    this.signer = signer;
+  }
+
+  public async reserve(
+    key: string,
+    request: ReservationRequest
+  ): Promise<SignedObject> {
+    if (typeof request.sku !== 'string' || request.sku.length === 0) {
+      throw new Error('Reservation sku must be a non-empty string');
+    }
+    if (!isPositiveInteger(request.quantity)) {
+      throw new Error('Reservation quantity must be a positive integer');
+    }
+    const reservedAt = request.reservedAt ?? Date.now();
+    const expiresAt = request.expiresAt ?? reservedAt + DEFAULT_HOLD;
+    if (expiresAt <= reservedAt) {
+      throw new Error('Reservation expiresAt must be after reservedAt');
+    }
+    const claims: ReservationClaims = {
+      type: RESERVATION_TYPE,
+      reservationId: uuidv4(),
+      sku: request.sku,
+      quantity: request.quantity,
+      reservedAt,
+      expiresAt,
+    };
+    if (request.options && Object.keys(request.options).length > 0) {
+      claims.options = { ...request.options };
+    }
+    if (request.cartId !== undefined) {
+      claims.cartId = request.cartId;
+    }
+    return await this.signer.sign(
+      key,
+      claims as unknown as Record<string, unknown>
+    );
+  }
+
+  /**
+   * Verify the signature, issuer key and expiry of a reservation
+   */
+  public async verifyReservation(
+    reservation: SignedObject,
+    trustedKeys: string[],
+    now = Date.now()
+  ): Promise<ReservationCheck> {
+    return await verifyTrustedToken<ReservationClaims>(
+      this.signer,
+      reservation,
+      trustedKeys,
+      {
+        type: RESERVATION_TYPE,
+        name: 'Reservation',
+        typeError: 'Not an inventory reservation',
+        now,
+      }
+    );
+  }
+
+  /**
+   * Check the reservation of one line: valid, trusted and covering the
+   * line's SKU, options and quantity
+   */
+  public async verifyLine(
+    item: CartLineItem,
+    cartId: string,
+    options: ReservationVerifyOptions
+  ): Promise<ReservationCheck> {
+    if (!item.reservation) {
+      return { valid: false, error: 'Missing reservation' };
+    }
+    const check = await this.verifyReservation(
+      item.reservation,
+      options.trustedKeys,
+      options.now
+    );
+    if (!check.valid || !check.claims) {
+      return check;
+    }
+    const claims = check.claims;
+    let error: string | undefined;
+    if (
+      lineItemKey(claims.sku, claims.options) !==
+      lineItemKey(item.sku, item.options)
+    ) {
+      error = 'Reservation is for a different item';
+    } else if (claims.cartId !== undefined && claims.cartId !== cartId) {
+      error = 'Reservation is for another cart';
+    } else if (claims.quantity < item.quantity) {
+      error = `Reservation holds ${claims.quantity} of ${item.quantity} units`;
+    }
+    if (error) {
+      return { valid: false, error, claims };
+    }
+    return check;
+  }
+
+  /**
+   * Check every reserved line of a cart payload. Lines without a
+   * reservation are not reported.
+   */
+  public async verifyCartReservations(
+    payload: Pick<CartPayload, 'cartId' | 'items'>,
+    options: ReservationVerifyOptions
+  ): Promise<CartReservationResult> {
+    const result: CartReservationResult = { held: [], lost: [] };
+    for (const item of payload.items) {
+      if (!item.reservation) {
+        continue;
+      }
+      const check = await this.verifyLine(item, payload.cartId, options);
+      const line: { sku: string; options?: CartItemOptions } = {
+        sku: item.sku,
+      };
+      if (item.options) {
+        line.options = item.options;
+      }
+      if (check.valid && check.claims) {
+        result.held.push({
+          ...line,
+          reservationId: check.claims.reservationId,
+          quantity: check.claims.quantity,
+          expiresAt: check.claims.expiresAt,
+        });
+        continue;
+      }
+      const lost: LostReservation = { ...line, error: String(check.error) };
+      if (check.claims) {
+        lost.reservationId = check.claims.reservationId;
+      }
+      result.lost.push(lost);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,207 @@
+import { v4 as uuidv4 } from 'uuid';
+import CloudlessCrypto from './cloudlessCrypto';
+import { SignedObject } from './jsonSignature';
+import { verifyTrustedToken } from './trustedToken';
+import { CartItemInput, CartLineItem, normalizeLineItem } from './cartItem';
+import { itemListsSchema, lineItemSchema } from './cartSchema';
+import { assertSchema, schema, validateSchema } from './schema';
+
+export const COLLECTION_TYPE = 'item-collection';
+export const SHARED_COLLECTION_TYPE = 'shared-collection';
+export const COLLECTION_PAYLOAD_VERSION = 1;
+
+/**
+ * Named item collections of a cart. cart holds the lines that are bought
+ * and totalled, the others are kept for later.
+ */
+export type CollectionName = 'cart' | 'saved' | 'wishlist';
+
+/**
+ * Collections kept beside the cart lines, not part of the totals
+ */
+export type ItemListName = Exclude<CollectionName, 'cart'>;
+
+export const ITEM_LISTS: ItemListName[] = ['saved', 'wishlist'];
+
+/**
+ * Item lists carried in a cart payload, empty lists are left out
+ */
+export type CartItemLists = Partial<Record<ItemListName, CartLineItem[]>>;
+
+/**
+ * Payload of one item list signed on its own, see
+ * CloudlessCart.signedCollection
+ */
+export interface CollectionPayload {
+  type: typeof COLLECTION_TYPE;
+  version: number;
+  cartId: string;
+  collection: ItemListName;
+  updatedAt: number;
+  items: CartLineItem[];
+}
+
+/**
+ * Payload of a read-only share of an item list. It does not name the cart
+ * and can't be restored into one.
+ */
+export interface SharedCollectionPayload {
+  type: typeof SHARED_COLLECTION_TYPE;
+  version: number;
+  shareId: string;
+  collection: ItemListName;
+  currency: string;
+  items: CartLineItem[];
+  /** Display name of the owner, e.g. for 'Alex's wishlist' */
+  sharedBy?: string;
+  sharedAt: number;
+  expiresAt?: number;
+}
+
+export interface ShareOptions {
+  sharedBy?: string;
+  /** Defaults to now */
+  sharedAt?: number;
+  /** The share does not expire when unset */
+  expiresAt?: number;
+}
+
+export interface SharedCollectionCheck {
+  valid: boolean;
+  error?: string;
+  shared?: SharedCollectionPayload;
+}
+
+export interface SharedCollectionVerifyOptions {
+  /** kids of the keys whose shares are accepted */
+  trustedKeys: string[];
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+}
+
+export const collectionPayloadSchema = schema.object({
+  type: schema.literal(COLLECTION_TYPE),
+  version: schema.literal(COLLECTION_PAYLOAD_VERSION),
+  cartId: schema.string({ minLength: 1 }),
+  collection: schema.oneOf(ITEM_LISTS),
+  updatedAt: schema.number({ description: 'a timestamp' }),
+  items: schema.array(lineItemSchema),
+});
+
+export const sharedCollectionSchema = schema.object({
+  type: schema.literal(SHARED_COLLECTION_TYPE),
+  version: schema.literal(COLLECTION_PAYLOAD_VERSION),
+  shareId: schema.string({ minLength: 1 }),
+  collection: schema.oneOf(ITEM_LISTS),
+  currency: schema.string({ minLength: 1 }),
+  items: schema.array(lineItemSchema),
+  sharedBy: schema.optional(schema.string()),
+  sharedAt: schema.number({ description: 'a timestamp' }),
+  expiresAt: schema.optional(schema.number({ description: 'a timestamp' })),
+});
+
+export function isCollectionName(value: unknown): value is CollectionName {
+  return value === 'cart' || ITEM_LISTS.includes(value as ItemListName);
+}
+
+/**
+ * Validate the item lists of an untrusted cart payload
+ */
+export function parseItemLists(value: unknown): CartItemLists {
+  assertSchema(itemListsSchema, value, 'Cart payload collections');
+  const raw = value as Record<ItemListName, CartItemInput[] | undefined>;
+  const lists: CartItemLists = {};
+  for (const name of ITEM_LISTS) {
+    const items = raw[name];
+    if (items !== undefined) {
+      lists[name] = items.map(normalizeLineItem);
+    }
+  }
+  return lists;
+}
+
+/**
+ * Validate a verified collection payload, JWT claims added by encryption
+ * are dropped
+ */
+export function parseCollectionPayload(value: unknown): CollectionPayload {
+  assertSchema(collectionPayloadSchema, value, 'Collection payload');
+  const raw = value as CollectionPayload;
+  return {
+    type: COLLECTION_TYPE,
+    version: raw.version,
+    cartId: raw.cartId,
+    collection: raw.collection,
+    updatedAt: raw.updatedAt,
+    items: raw.items.map(normalizeLineItem),
+  };
+}
+
+/**
+ * Payload of a read-only share of items. Reservations are left out, they
+ * hold stock for the owner's cart only.
+ */
+export function buildSharedCollection(
+  collection: ItemListName,
+  currency: string,
+  items: CartLineItem[],
+  options: ShareOptions = {}
+): SharedCollectionPayload {
+  const sharedAt = options.sharedAt ?? Date.now();
+  if (options.expiresAt !== undefined && options.expiresAt <= sharedAt) {
+    throw new Error('Share expiresAt must be after sharedAt');
+  }
+  const shared: SharedCollectionPayload = {
+    type: SHARED_COLLECTION_TYPE,
+    version: COLLECTION_PAYLOAD_VERSION,
+    shareId: uuidv4(),
+    collection,
+    currency,
+    items: items.map(item => {
+      const copy = normalizeLineItem(item);
+      delete copy.reservation;
+      return copy;
+    }),
+    sharedAt,
+  };
+  if (options.sharedBy !== undefined) {
+    shared.sharedBy = options.sharedBy;
+  }
+  if (options.expiresAt !== undefined) {
+    shared.expiresAt = options.expiresAt;
+  }
+  return shared;
+}
+
+/**
+ * Verify a share token with the public key of its signer, e.g. on the
+ * page that shows a friend's wishlist
+ */
+export async function verifySharedCollection(
+  token: SignedObject,
+  crypto: CloudlessCrypto,
+  options: SharedCollectionVerifyOptions
+): Promise<SharedCollectionCheck> {
+  const check = await verifyTrustedToken<SharedCollectionPayload>(
+    crypto.signer,
+    token,
+    options.trustedKeys,
+    {
+      type: SHARED_COLLECTION_TYPE,
+      name: 'Share',
+      typeError: 'Not a shared collection',
+      now: options.now,
+    }
+  );
+  const shared = check.claims;
+  if (!shared) {
+    return { valid: false, error: check.error };
+  }
+  const result = validateSchema(sharedCollectionSchema, shared, 'Share');
+  if (!result.valid) {
+    return { valid: false, error: result.errors.join('; ') };
+  }
+  return check.valid
+    ? { valid: true, shared }
+    : { valid: false, error: check.error, shared };
+}
@@ -2,6 +2,13 @@ import * as jose from 'jose';
 import { FlattenedJWS, GenerateKeyPairResult, JWK, KeyLike } from 'jose';
 import { v4 as uuidv4 } from 'uuid';
 import stringify from 'fast-json-stable-stringify';
+import {
+  PassphraseOptions,
+  protectKeyPair,
+  ProtectedKeyPair,
+  unprotectKeyPair,
+} from './keyBundle';
+import { assertKeyUsable, KeyRotationInfo, keyRejection } from './keyState';
 
 const iterations = 1;
 export type SignedObject = {
@@ -10,18 +17,62 @@ export type SignedObject = {
   payload: Record<string, unknown>;
 };
 
-export type KeyPair = {
+export interface VerifyOptions {
+  /** Accept a key KeyRotation has archived, e.g. for old receipts */
+  archived?: boolean;
+}
+
+export type KeyPair = KeyRotationInfo & {
   publicKey?: KeyLike;
   privateKey?: KeyLike;
   alg?: string;
 };
 
+/**
+ * Both halves of a key pair as JWK, see exportKeyPair
+ */
+export type ExportedKeyPair = {
+  kid: string;
+  publicKey: JWK;
+  privateKey: JWK;
+  alg: string | undefined;
+};
+
+/**
+ * Where JsonSignature and TokenCrypto keep their keys. Every method may
+ * return a promise, which is awaited, so keys can live in a file, a database
+ * or IndexedDB (see FileKeyStore and IndexedDbKeyStore). A Map works as an
+ * in-memory store.
+ */
 export type KeyStore = {
-  set: (key: string, value: KeyPair) => void;
-  get: (key: string) => KeyPair | undefined;
+  get: (key: string) => KeyPair | undefined | Promise<KeyPair | undefined>;
+  /** May return a promise */
+  set: (key: string, value: KeyPair) => unknown;
+  /** May return a promise */
+  delete?: (key: string) => unknown;
+  /** kids of all stored keys, needed to list or try every key */
+  keys?: () => Iterable<string> | Promise<Iterable<string>>;
 };
+
+/**
+ * Looks up a key the store doesn't have, e.g. in a published JWKS (see
+ * JwksResolver). Resolved keys are used but not stored.
+ */
+export type KeyResolver = (kid: string) => Promise<KeyPair | undefined>;
+
+/**
+ * kids of the keys in a store, throws if the store can't list them
+ */
+export async function listKeys(store: KeyStore): Promise<string[]> {
+  if (!store.keys) {
+    throw new Error('Key store can not list its keys');
+  }
+  return Array.from(await store.keys());
+}
+
 export default class JsonSignature {
   private readonly _keys: KeyStore;
+  private resolver?: KeyResolver;
   private debug = false;
   constructor(keyStore?: KeyStore, debug = false) {
     if (debug) {
@@ -36,13 +87,8 @@ export default class JsonSignature {
       this._keys = new Map<string, KeyPair>();
     }
   }
-  public async exportKeyPair(key: string): Promise<{
-    kid: string;
-    publicKey: JWK;
-    privateKey: JWK;
-    alg: string | undefined;
-  }> {
-    const value = this._keys.get(key);
+  public async exportKeyPair(key: string): Promise<ExportedKeyPair> {
+    const value = await this._keys.get(key);
     if (!value?.publicKey || !value?.privateKey) {
       throw new Error('Not a valid key pair');
     }
@@ -62,8 +108,43 @@ export default class JsonSignature {
       publicKey: pubImp as KeyLike,
       privateKey: privImp as KeyLike,
       alg: alg,
+      use: 'sig',
     };
-    this._keys.set(key, pair);
+    await this._keys.set(key, pair);
+  }
+  /**
+   * Export a key pair with the private key wrapped by a passphrase, see
+   * importProtectedKeyPair
+   */
+  public async exportProtectedKeyPair(
+    key: string,
+    passphrase: string,
+    options?: PassphraseOptions
+  ): Promise<ProtectedKeyPair> {
+    return await protectKeyPair(
+      await this.exportKeyPair(key),
+      passphrase,
+      options
+    );
+  }
+
+  public async importProtectedKeyPair(
+    exported: ProtectedKeyPair,
+    passphrase: string
+  ): Promise<void> {
+    const pair = await unprotectKeyPair(exported, passphrase);
+    await this.importKeyPair(
+      pair.kid,
+      pair.publicKey,
+      pair.privateKey,
+      pair.alg || 'PS256'
+    );
+  }
+  /**
+   * Consult resolver for kids the store doesn't have when verifying
+   */
+  public setKeyResolver(resolver?: KeyResolver): void {
+    this.resolver = resolver;
   }
   private log(message: string, ...optionalParams: any[]) {
     if (this.debug) {
@@ -73,15 +154,15 @@ export default class JsonSignature {
 
   async setPrivateKey(key: string, value: JWK): Promise<void> {
     const privKey = await jose.importJWK(value);
-    this._keys.set(key, { privateKey: privKey as KeyLike });
+    await this._keys.set(key, { privateKey: privKey as KeyLike });
   }
   async setPublicKey(key: string, value: JWK): Promise<void> {
     const pubKey = await jose.importJWK(value);
-    this._keys.set(key, { publicKey: pubKey as KeyLike });
+    await this._keys.set(key, { publicKey: pubKey as KeyLike });
   }
 
   public async getPublicKey(key: string): Promise<JWK> {
-    const value: KeyPair | undefined = this._keys.get(key);
+    const value: KeyPair | undefined = await this._keys.get(key);
     if (!value?.publicKey) {
       throw new Error('Key not found');
     }
@@ -95,10 +176,11 @@ export default class JsonSignature {
       extractable: true,
     });
     const key = uuidv4();
-    this._keys.set(key, {
+    await this._keys.set(key, {
       publicKey: value.publicKey,
       privateKey: value.privateKey,
       alg: alg,
+      use: 'sig',
     });
     const pubKey = await jose.exportJWK(value.publicKey);
     return { key, publicKey: pubKey };
@@ -108,12 +190,13 @@ export default class JsonSignature {
     key: string,
     obj: Record<string, unknown>
   ): Promise<SignedObject> {
-    const value = this._keys.get(key);
+    const value = await this._keys.get(key);
 
     if (!value?.privateKey) {
       this.log('Key not found for ', key);
       throw new Error('Key not found');
     }
+    assertKeyUsable(key, value);
     let input = '';
     let jws = { signature: '', protected: '', payload: '' } as FlattenedJWS;
     const start = performance.now();
@@ -141,13 +224,14 @@ export default class JsonSignature {
 
   public async verify(
     signed: SignedObject,
-    key?: string
+    key?: string,
+    options: VerifyOptions = {}
   ): Promise<Record<string, unknown>> {
     let v = {};
     const start = performance.now();
     this.log('start: ', start);
     for (let i = 0; i < iterations; i++) {
-      v = await this._verify(signed, key);
+      v = await this._verify(signed, key, options);
     }
     this.log('Time taken: ', performance.now() - start);
     this.log('Time taken: ', (performance.now() - start) / iterations);
@@ -156,7 +240,8 @@ export default class JsonSignature {
 
   private async _verify(
     signed: SignedObject,
-    key?: string
+    key: string | undefined,
+    verifyOptions: VerifyOptions
   ): Promise<Record<string, unknown>> {
     let kid = key;
     try {
@@ -177,10 +262,22 @@ export default class JsonSignature {
     if (!kid) {
       return { error: 'kid not found' };
     }
-    const value = this._keys.get(kid);
+    let value: KeyPair | undefined;
+    try {
+      value = await this._keys.get(kid);
+      if (!value && this.resolver) {
+        value = await this.resolver(kid);
+      }
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
     if (!value?.publicKey) {
       return { error: `Key ${kid} not found` };
     }
+    const rejection = keyRejection(kid, value, verifyOptions);
+    if (rejection) {
+      return { error: rejection };
+    }
     const rsaPublicKey = value.publicKey;
     let options = {};
     if (value.alg) {
@@ -205,7 +302,7 @@ export default class JsonSignature {
     }
   }
 
-  public hasKey(keyId: string): boolean {
-    return this._keys.get(keyId) !== undefined;
+  public async hasKey(keyId: string): Promise<boolean> {
+    return (await this._keys.get(keyId)) !== undefined;
   }
 }
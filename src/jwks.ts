@@ -0,0 +1,140 @@
+import * as jose from 'jose';
+import { JWK, KeyLike } from 'jose';
+import { KeyPair, KeyStore, listKeys } from './jsonSignature';
+import { keyRejection, KeyUse } from './keyState';
+
+/**
+ * A public key as published in a JWK Set
+ */
+export interface PublicJwk extends JWK {
+  kid: string;
+  use: KeyUse;
+  alg: string;
+  key_ops: string[];
+}
+
+/**
+ * A JWK Set (RFC 7517), e.g. the body of /.well-known/jwks.json
+ */
+export interface JsonWebKeySet {
+  keys: PublicJwk[];
+}
+
+export interface JwksImportOptions {
+  /** Only import keys of this use */
+  use?: KeyUse;
+}
+
+const KEY_OPS: Record<KeyUse, string[]> = {
+  sig: ['verify'],
+  enc: ['encrypt'],
+};
+
+/** key_ops a published key may list to be imported for its use */
+const ACCEPTED_KEY_OPS: Record<KeyUse, string[]> = {
+  sig: ['verify'],
+  enc: ['encrypt', 'wrapKey'],
+};
+
+const PRIVATE_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+/**
+ * What a key is for: its rotation use, or else what its alg does
+ */
+export function keyUse(pair: {
+  use?: KeyUse;
+  alg?: string;
+}): KeyUse | undefined {
+  if (pair.use) {
+    return pair.use;
+  }
+  if (!pair.alg) {
+    return undefined;
+  }
+  return /^(RSA-OAEP|RSA1_5|ECDH-ES)/.test(pair.alg) ? 'enc' : 'sig';
+}
+
+/**
+ * Public halves of the keys in a store as a JWK Set. Keys without an alg
+ * and revoked or archived keys are left out; pending ones are included so
+ * verifiers know them before they sign.
+ */
+export async function exportJwks(
+  store: KeyStore,
+  options: { use?: KeyUse } = {}
+): Promise<JsonWebKeySet> {
+  const keys: PublicJwk[] = [];
+  for (const kid of await listKeys(store)) {
+    const pair: KeyPair | undefined = await store.get(kid);
+    const use = pair && keyUse(pair);
+    if (
+      !pair?.publicKey ||
+      !pair.alg ||
+      !use ||
+      (options.use && use !== options.use) ||
+      keyRejection(kid, pair)
+    ) {
+      continue;
+    }
+    keys.push({
+      ...(await jose.exportJWK(pair.publicKey)),
+      kid,
+      use,
+      alg: pair.alg,
+      key_ops: KEY_OPS[use],
+    });
+  }
+  return { keys };
+}
+
+/**
+ * Store the public keys of a JWK Set so signatures made with them verify
+ * and tokens can be encrypted to them. Keys without a kid or alg are
+ * skipped, as are kids the store holds a private key for. Returns the
+ * imported kids.
+ */
+export async function importJwks(
+  store: KeyStore,
+  jwks: unknown,
+  options: JwksImportOptions = {}
+): Promise<string[]> {
+  const keys = (jwks as JsonWebKeySet | undefined)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('Not a JWK Set');
+  }
+  const imported: string[] = [];
+  for (const jwk of keys as JWK[]) {
+    if (!jwk || typeof jwk.kid !== 'string' || typeof jwk.alg !== 'string') {
+      continue;
+    }
+    const kid = jwk.kid;
+    if (PRIVATE_MEMBERS.some(member => member in jwk)) {
+      throw new Error(`JWKS key ${kid} is not a public key`);
+    }
+    if (jwk.use !== undefined && jwk.use !== 'sig' && jwk.use !== 'enc') {
+      continue;
+    }
+    const use = keyUse({ use: jwk.use, alg: jwk.alg });
+    if (!use || (options.use && use !== options.use)) {
+      continue;
+    }
+    const existing: KeyPair | undefined = await store.get(kid);
+    if (existing?.privateKey) {
+      continue;
+    }
+    if (
+      jwk.key_ops &&
+      !jwk.key_ops.some(op => ACCEPTED_KEY_OPS[use].includes(op))
+    ) {
+      continue;
+    }
+    // Checked above, WebCrypto rejects some of them on import
+    const material = { ...jwk };
+    delete material.key_ops;
+    delete material.use;
+    const publicKey = (await jose.importJWK(material, jwk.alg)) as KeyLike;
+    await store.set(kid, { publicKey, alg: jwk.alg, use });
+    imported.push(kid);
+  }
+  return imported;
+}
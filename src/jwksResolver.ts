@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import { KeyPair } from './jsonSignature';
+import { importJwks } from './jwks';
+import { KeyUse } from './keyState';
+
+export interface JwksResolverOptions {
+  /** JWKS URL, e.g. https://shop.example/.well-known/jwks.json */
+  url?: string;
+  /** Local JWKS file, instead of url */
+  file?: string;
+  /** Used for url, defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** How long a loaded set is used, ms, defaults to 10 minutes */
+  ttl?: number;
+  /**
+   * After a kid was missing from a fresh set, don't reload for it for this
+   * long, ms, defaults to 1 minute
+   */
+  missCooldown?: number;
+  /** At most this many loads per interval (ms), defaults to 10 per minute */
+  rateLimit?: { requests: number; interval: number };
+  /** Only resolve keys of this use */
+  use?: KeyUse;
+}
+
+const DEFAULT_TTL = 10 * 60 * 1000;
+const DEFAULT_MISS_COOLDOWN = 60 * 1000;
+const DEFAULT_RATE_LIMIT = { requests: 10, interval: 60 * 1000 };
+
+/**
+ * Resolves kids from a cached JWKS, see CloudlessCrypto.setKeyResolver
+ */
+export default class JwksResolver {
+  private readonly source: string;
+  private readonly load: () => Promise<unknown>;
+  private readonly ttl: number;
+  private readonly missCooldown: number;
+  private readonly rateLimit: { requests: number; interval: number };
+  private readonly use?: KeyUse;
+  private keys = new Map<string, KeyPair>();
+  private loadedAt?: number;
+  private readonly misses = new Map<string, number>();
+  private loads: number[] = [];
+  private loading?: Promise<void>;
+
+  constructor(options: JwksResolverOptions) {
+    const { url, file } = options;
+    if (url && !file) {
+      const fetcher =
+        options.fetch || (typeof fetch !== 'undefined' ? fetch : undefined);
+      if (!fetcher) {
+        throw new Error('fetch is not available in this environment');
+      }
+      this.source = url;
+      this.load = async () => {
+        const response = await fetcher(url);
+        if (!response.ok) {
+          throw new Error(`status ${response.status}`);
+        }
+        return (await response.json()) as unknown;
+      };
+    } else if (file && !url) {
+      this.source = file;
+      this.load = async () =>
+        JSON.parse(await fs.readFile(file, 'utf8')) as unknown;
+    } else {
+      throw new Error('JwksResolver needs either a url or a file');
+    }
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.missCooldown = options.missCooldown ?? DEFAULT_MISS_COOLDOWN;
+    this.rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+    this.use = options.use;
+  }
+
+  public async resolve(kid: string): Promise<KeyPair | undefined> {
+    const now = Date.now();
+    const fresh = this.loadedAt !== undefined && now - this.loadedAt < this.ttl;
+    const cached = this.keys.get(kid);
+    if (cached && fresh) {
+      return cached;
+    }
+    if (!cached && fresh && (this.misses.get(kid) ?? 0) > now) {
+      return undefined;
+    }
+    if (!this.loading && !this.allowLoad(now)) {
+      return cached;
+    }
+    try {
+      await this.reload();
+    } catch (e) {
+      if (cached) {
+        return cached;
+      }
+      throw e;
+    }
+    const key = this.keys.get(kid);
+    if (!key) {
+      this.misses.set(kid, Date.now() + this.missCooldown);
+    }
+    return key;
+  }
+
+  /**
+   * Forget the loaded set and the misses, the next lookup loads again
+   */
+  public clear(): void {
+    this.keys = new Map();
+    this.loadedAt = undefined;
+    this.misses.clear();
+  }
+
+  private allowLoad(now: number): boolean {
+    this.loads = this.loads.filter(
+      loadedAt => now - loadedAt < this.rateLimit.interval
+    );
+    return this.loads.length < this.rateLimit.requests;
+  }
+
+  /**
+   * Concurrent lookups share one load
+   */
+  private reload(): Promise<void> {
+    if (!this.loading) {
+      const done = () => {
+        this.loading = undefined;
+      };
+      this.loads.push(Date.now());
+      this.loading = this.read();
+      this.loading.then(done, done);
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<void> {
+    let jwks: unknown;
+    try {
+      jwks = await this.load();
+    } catch (e) {
+      throw new Error(
+        `JWKS ${this.source} could not be loaded: ${(e as Error).message}`
+      );
+    }
+    const keys = new Map<string, KeyPair>();
+    await importJwks(keys, jwks, { use: this.use });
+    this.keys = keys;
+    this.loadedAt = Date.now();
+  }
+}
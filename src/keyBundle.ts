@@ -0,0 +1,251 @@
+import * as jose from 'jose';
+import { JWK, KeyLike } from 'jose';
+import { ExportedKeyPair, KeyPair, KeyStore, listKeys } from './jsonSignature';
+import { KeyRotationInfo } from './keyState';
+
+export const PASSPHRASE_KEY_ALG = 'PBES2-HS512+A256KW';
+const PASSPHRASE_ENC = 'A256GCM';
+const DEFAULT_ITERATIONS = 100000;
+export const KEY_BUNDLE_VERSION = 1;
+
+export interface PassphraseOptions {
+  /**
+   * PBKDF2 iterations used to derive the wrapping key from the passphrase,
+   * defaults to 100000
+   */
+  iterations?: number;
+}
+
+/**
+ * A key pair whose private half is a JWE wrapped with a passphrase, safe to
+ * write to disk. The public half stays readable.
+ */
+export interface ProtectedKeyPair {
+  kid: string;
+  alg?: string;
+  publicKey: JWK;
+  /** Compact JWE (PBES2-HS512+A256KW, A256GCM) of the private JWK */
+  privateKey: string;
+}
+
+/**
+ * One key of a bundle with its rotation state, either half may be missing
+ */
+export interface BundledKey extends KeyRotationInfo {
+  alg?: string;
+  publicKey?: JWK;
+  privateKey?: JWK;
+}
+
+/**
+ * Plaintext of an encrypted key bundle, see exportKeyBundle
+ */
+export interface KeyBundle {
+  version: number;
+  keys: Record<string, BundledKey>;
+}
+
+/**
+ * Encrypt a JSON value with a passphrase as a compact JWE
+ */
+export async function encryptWithPassphrase(
+  value: unknown,
+  passphrase: string,
+  options: PassphraseOptions & { kid?: string; cty?: string } = {}
+): Promise<string> {
+  if (!passphrase) {
+    throw new Error('A passphrase is required');
+  }
+  const header: jose.CompactJWEHeaderParameters = {
+    alg: PASSPHRASE_KEY_ALG,
+    enc: PASSPHRASE_ENC,
+  };
+  if (options.kid !== undefined) {
+    header.kid = options.kid;
+  }
+  if (options.cty !== undefined) {
+    header.cty = options.cty;
+  }
+  return await new jose.CompactEncrypt(
+    new TextEncoder().encode(JSON.stringify(value))
+  )
+    .setProtectedHeader(header)
+    .setKeyManagementParameters({
+      p2c: options.iterations ?? DEFAULT_ITERATIONS,
+    })
+    .encrypt(new TextEncoder().encode(passphrase));
+}
+
+/**
+ * Decrypt a JWE made by encryptWithPassphrase. Throws on a wrong
+ * passphrase or a tampered token.
+ */
+export async function decryptWithPassphrase(
+  jwe: string,
+  passphrase: string,
+  options: PassphraseOptions = {}
+): Promise<{ value: unknown; kid?: string }> {
+  try {
+    const { plaintext, protectedHeader } = await jose.compactDecrypt(
+      jwe.trim(),
+      new TextEncoder().encode(passphrase),
+      {
+        keyManagementAlgorithms: [PASSPHRASE_KEY_ALG],
+        contentEncryptionAlgorithms: [PASSPHRASE_ENC],
+        maxPBES2Count: Math.max(
+          options.iterations ?? DEFAULT_ITERATIONS,
+          DEFAULT_ITERATIONS
+        ),
+      }
+    );
+    return {
+      value: JSON.parse(new TextDecoder().decode(plaintext)),
+      kid: protectedHeader.kid,
+    };
+  } catch (e) {
+    throw new Error(
+      `Decryption with passphrase failed: ${(e as Error).message}`
+    );
+  }
+}
+
+/**
+ * Wrap the private half of an exported key pair with a passphrase
+ */
+export async function protectKeyPair(
+  exported: ExportedKeyPair,
+  passphrase: string,
+  options: PassphraseOptions = {}
+): Promise<ProtectedKeyPair> {
+  const protectedPair: ProtectedKeyPair = {
+    kid: exported.kid,
+    publicKey: exported.publicKey,
+    privateKey: await encryptWithPassphrase(exported.privateKey, passphrase, {
+      ...options,
+      kid: exported.kid,
+      cty: 'jwk+json',
+    }),
+  };
+  if (exported.alg !== undefined) {
+    protectedPair.alg = exported.alg;
+  }
+  return protectedPair;
+}
+
+/**
+ * Unwrap a key pair made by protectKeyPair. The private key must belong to
+ * the kid and to the public key it is stored with.
+ */
+export async function unprotectKeyPair(
+  protectedPair: ProtectedKeyPair,
+  passphrase: string
+): Promise<ExportedKeyPair> {
+  const { value, kid } = await decryptWithPassphrase(
+    protectedPair.privateKey,
+    passphrase
+  );
+  const privateKey = value as JWK;
+  if (kid !== protectedPair.kid) {
+    throw new Error(`Private key was wrapped for key ${String(kid)}`);
+  }
+  if (
+    (await jose.calculateJwkThumbprint(privateKey)) !==
+    (await jose.calculateJwkThumbprint(protectedPair.publicKey))
+  ) {
+    throw new Error(`Private key does not match public key ${kid}`);
+  }
+  return {
+    kid,
+    publicKey: protectedPair.publicKey,
+    privateKey,
+    alg: protectedPair.alg,
+  };
+}
+
+export async function toBundledKey(pair: KeyPair): Promise<BundledKey> {
+  const { publicKey, privateKey, ...metadata } = pair;
+  const bundled: BundledKey = { ...metadata };
+  if (publicKey) {
+    bundled.publicKey = await jose.exportJWK(publicKey);
+  }
+  if (privateKey) {
+    bundled.privateKey = await jose.exportJWK(privateKey);
+  }
+  return bundled;
+}
+
+export async function fromBundledKey(bundled: BundledKey): Promise<KeyPair> {
+  const { publicKey, privateKey, ...metadata } = bundled;
+  const pair: KeyPair = { ...metadata };
+  if (publicKey) {
+    pair.publicKey = (await jose.importJWK(publicKey, bundled.alg)) as KeyLike;
+  }
+  if (privateKey) {
+    pair.privateKey = (await jose.importJWK(
+      privateKey,
+      bundled.alg
+    )) as KeyLike;
+  }
+  return pair;
+}
+
+export async function sealKeyBundle(
+  bundle: KeyBundle,
+  passphrase: string,
+  options: PassphraseOptions = {}
+): Promise<string> {
+  return await encryptWithPassphrase(bundle, passphrase, options);
+}
+
+export async function openKeyBundle(
+  jwe: string,
+  passphrase: string,
+  options: PassphraseOptions = {}
+): Promise<KeyBundle> {
+  const bundle = (await decryptWithPassphrase(jwe, passphrase, options))
+    .value as KeyBundle;
+  if (bundle?.version !== KEY_BUNDLE_VERSION || !bundle.keys) {
+    throw new Error(
+      `Unsupported key bundle version ${String(bundle?.version)}`
+    );
+  }
+  return bundle;
+}
+
+/**
+ * Export keys of a store (all of them unless kids is given) as one
+ * passphrase encrypted bundle. Keys must be extractable.
+ */
+export async function exportKeyBundle(
+  store: KeyStore,
+  passphrase: string,
+  options: PassphraseOptions & { kids?: string[] } = {}
+): Promise<string> {
+  const bundle: KeyBundle = { version: KEY_BUNDLE_VERSION, keys: {} };
+  for (const kid of options.kids || (await listKeys(store))) {
+    const pair: KeyPair | undefined = await store.get(kid);
+    if (!pair) {
+      throw new Error(`Key ${kid} not found`);
+    }
+    bundle.keys[kid] = await toBundledKey(pair);
+  }
+  return await sealKeyBundle(bundle, passphrase, options);
+}
+
+/**
+ * Decrypt a bundle made by exportKeyBundle (or a FileKeyStore file) and put
+ * its keys into store, a new Map unless given. Meant for startup:
+ * `new CloudlessCrypto(await loadKeyBundle(bundle, passphrase))`.
+ */
+export async function loadKeyBundle(
+  jwe: string,
+  passphrase: string,
+  store: KeyStore = new Map<string, KeyPair>(),
+  options: PassphraseOptions = {}
+): Promise<KeyStore> {
+  const bundle = await openKeyBundle(jwe, passphrase, options);
+  for (const [kid, bundled] of Object.entries(bundle.keys)) {
+    await store.set(kid, await fromBundledKey(bundled));
+  }
+  return store;
+}
@@ -0,0 +1,248 @@
+import * as jose from 'jose';
+import { JWTPayload } from 'jose';
+import type CloudlessCrypto from './cloudlessCrypto';
+import { KeyPair, KeyStore, listKeys, SignedObject } from './jsonSignature';
+import { keyState, KeyRotationInfo, KeyState, KeyUse } from './keyState';
+import { EncryptionOptions } from './tokenCrypto';
+
+const DEFAULT_GRACE_PERIOD = 7 * 24 * 60 * 60 * 1000;
+
+export interface KeyStatus extends KeyRotationInfo {
+  kid: string;
+  use: KeyUse;
+  /** State at the time of the call */
+  state: KeyState;
+}
+
+export interface KeyRotationOptions {
+  /**
+   * How long a replaced key keeps verifying and decrypting, ms, defaults to
+   * 7 days. After that it is archived and rejected, see VerifyOptions.
+   */
+  gracePeriod?: number;
+}
+
+/**
+ * Rotates the signing and encryption keys of a CloudlessCrypto. A new key
+ * replaces the active key of its use at activation; the replaced key
+ * retires and keeps verifying and decrypting for the grace period, then is
+ * archived. The state is kept in the key store, which must be able to
+ * list its keys.
+ */
+export default class KeyRotation {
+  private readonly crypto: CloudlessCrypto;
+  private readonly store: KeyStore;
+  private readonly gracePeriod: number;
+
+  constructor(crypto: CloudlessCrypto, options: KeyRotationOptions = {}) {
+    this.crypto = crypto;
+    this.store = crypto.keyStore;
+    this.gracePeriod = options.gracePeriod ?? DEFAULT_GRACE_PERIOD;
+  }
+
+  /**
+   * Generate a key for use and activate it, now unless activatesAt is
+   * given. Returns its kid.
+   */
+  public async rotate(
+    use: KeyUse,
+    options: { alg?: string; activatesAt?: number } = {}
+  ): Promise<string> {
+    const { key } =
+      use === 'sig'
+        ? await this.crypto.generateSigningKeyPair(options.alg)
+        : await this.crypto.generateEncryptionKeyPair(options.alg);
+    await this.activate(key, use, options.activatesAt);
+    return key;
+  }
+
+  /**
+   * Put an existing key (e.g. an imported one) under rotation and activate
+   * it at activatesAt. Active keys of the same use retire then.
+   */
+  public async activate(
+    kid: string,
+    use: KeyUse,
+    activatesAt = Date.now()
+  ): Promise<void> {
+    const pair = await this.require(kid);
+    const retiresAt = activatesAt;
+    const expiresAt = activatesAt + this.gracePeriod;
+    for (const other of await this.status(use)) {
+      const replaced =
+        other.state === 'active' ||
+        (other.state === 'pending' &&
+          other.activatesAt !== undefined &&
+          other.activatesAt <= activatesAt);
+      if (other.kid === kid || !replaced) {
+        continue;
+      }
+      const otherPair = await this.require(other.kid);
+      await this.store.set(other.kid, {
+        ...otherPair,
+        retiresAt: Math.min(otherPair.retiresAt ?? retiresAt, retiresAt),
+        expiresAt: Math.min(otherPair.expiresAt ?? expiresAt, expiresAt),
+      });
+    }
+    await this.store.set(kid, {
+      ...pair,
+      use,
+      state: activatesAt <= Date.now() ? 'active' : 'pending',
+      activatesAt,
+      retiresAt: undefined,
+      expiresAt: undefined,
+    });
+  }
+
+  /**
+   * Stop signing and encrypting with a key now, it keeps verifying and
+   * decrypting for gracePeriod
+   */
+  public async retire(
+    kid: string,
+    gracePeriod = this.gracePeriod
+  ): Promise<void> {
+    const pair = await this.require(kid);
+    const state = keyState(pair);
+    if (state === 'revoked' || state === 'archived') {
+      throw new Error(`Key ${kid} is ${state}`);
+    }
+    const now = Date.now();
+    await this.store.set(kid, {
+      ...pair,
+      state: 'retiring',
+      retiresAt: now,
+      expiresAt: now + gracePeriod,
+    });
+  }
+
+  /**
+   * Stop accepting a key at once, e.g. after it leaked
+   */
+  public async revoke(kid: string): Promise<void> {
+    const pair = await this.require(kid);
+    await this.store.set(kid, { ...pair, state: 'revoked' });
+  }
+
+  /**
+   * kid of the key that signs or encrypts now, the latest activated one
+   */
+  public async activeKey(use: KeyUse): Promise<string> {
+    const active = (await this.status(use)).filter(
+      status => status.state === 'active'
+    );
+    if (active.length === 0) {
+      throw new Error(`No active ${use} key`);
+    }
+    active.sort((a, b) => (b.activatesAt ?? 0) - (a.activatesAt ?? 0));
+    return active[0].kid;
+  }
+
+  /**
+   * State of every rotated key, of one use if given
+   */
+  public async status(use?: KeyUse): Promise<KeyStatus[]> {
+    const now = Date.now();
+    const statuses: KeyStatus[] = [];
+    for (const kid of await listKeys(this.store)) {
+      const pair: KeyPair | undefined = await this.store.get(kid);
+      const state = pair && keyState(pair, now);
+      if (!pair?.use || !state || (use && pair.use !== use)) {
+        continue;
+      }
+      statuses.push({
+        kid,
+        use: pair.use,
+        state,
+        activatesAt: pair.activatesAt,
+        retiresAt: pair.retiresAt,
+        expiresAt: pair.expiresAt,
+      });
+    }
+    return statuses;
+  }
+
+  /**
+   * Delete revoked keys from the store, returns their kids. Archived keys
+   * are kept for verifiers that opt in to them, e.g. of old receipts.
+   */
+  public async prune(): Promise<string[]> {
+    if (!this.store.delete) {
+      throw new Error('Key store can not delete keys');
+    }
+    const revoked = (await this.status())
+      .filter(status => status.state === 'revoked')
+      .map(status => status.kid);
+    for (const kid of revoked) {
+      await this.store.delete(kid);
+    }
+    return revoked;
+  }
+
+  /**
+   * Sign with the active signing key
+   */
+  public async signObject(obj: Record<string, unknown>): Promise<SignedObject> {
+    return (await this.crypto.signObject(
+      await this.activeKey('sig'),
+      obj
+    )) as SignedObject;
+  }
+
+  /**
+   * Verify with the key named in the signature, pending, active or retiring
+   */
+  public async verifyObject(
+    signed: SignedObject
+  ): Promise<Record<string, unknown>> {
+    return await this.crypto.verifyObject(signed);
+  }
+
+  /**
+   * encryptThenSign with the active encryption and signing keys
+   */
+  public async encryptThenSign(
+    payload: JWTPayload,
+    encryptionOptions?: EncryptionOptions
+  ): Promise<SignedObject> {
+    return (await this.crypto.encryptThenSign(
+      await this.activeKey('enc'),
+      await this.activeKey('sig'),
+      payload,
+      encryptionOptions
+    )) as SignedObject;
+  }
+
+  /**
+   * verifyThenDecrypt with the keys named in the token, active or retiring
+   */
+  public async verifyThenDecrypt(
+    token: SignedObject
+  ): Promise<Record<string, unknown>> {
+    const signingKey = jose.decodeProtectedHeader({
+      protected: token.protected,
+      signature: token.signature,
+    }).kid;
+    const encrypted = token.payload?.encrypted;
+    const encryptionKey =
+      typeof encrypted === 'string'
+        ? jose.decodeProtectedHeader(encrypted).kid
+        : undefined;
+    if (!signingKey || !encryptionKey) {
+      throw new Error('Token does not name its keys');
+    }
+    return await this.crypto.verifyThenDecrypt(
+      signingKey,
+      encryptionKey,
+      token
+    );
+  }
+
+  private async require(kid: string): Promise<KeyPair> {
+    const pair = await this.store.get(kid);
+    if (!pair) {
+      throw new Error(`Key ${kid} not found`);
+    }
+    return pair;
+  }
+}
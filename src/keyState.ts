@@ -0,0 +1,80 @@
+export type KeyState =
+  | 'pending'
+  | 'active'
+  | 'retiring'
+  | 'archived'
+  | 'revoked';
+export type KeyUse = 'sig' | 'enc';
+
+/**
+ * Rotation metadata stored alongside a KeyPair. Times are ms since epoch and
+ * move a key on without a write: a pending key becomes active at
+ * activatesAt, an active one retiring at retiresAt, and a retiring one
+ * archived at expiresAt. Archived keys are rejected unless a verifier opts
+ * in for them, e.g. for old receipts; revoked keys are always rejected.
+ * Keys without a state are not rotated and always usable.
+ */
+export interface KeyRotationInfo {
+  use?: KeyUse;
+  state?: KeyState;
+  activatesAt?: number;
+  retiresAt?: number;
+  expiresAt?: number;
+}
+
+/**
+ * State of a key at now, undefined for keys that are not rotated
+ */
+export function keyState(
+  info: KeyRotationInfo,
+  now = Date.now()
+): KeyState | undefined {
+  if (!info.state) {
+    return undefined;
+  }
+  if (info.state === 'revoked' || info.state === 'archived') {
+    return info.state;
+  }
+  if (info.expiresAt !== undefined && now >= info.expiresAt) {
+    return 'archived';
+  }
+  if (info.state === 'pending') {
+    return info.activatesAt !== undefined && now >= info.activatesAt
+      ? 'active'
+      : 'pending';
+  }
+  if (
+    info.state === 'active' &&
+    info.retiresAt !== undefined &&
+    now >= info.retiresAt
+  ) {
+    return 'retiring';
+  }
+  return info.state;
+}
+
+/**
+ * Throws unless the key may sign or encrypt now, only active keys may
+ */
+export function assertKeyUsable(kid: string, info: KeyRotationInfo): void {
+  const state = keyState(info);
+  if (state && state !== 'active') {
+    throw new Error(`Key ${kid} is ${state}`);
+  }
+}
+
+/**
+ * Why the key may not verify or decrypt now, if it may not. Pending keys
+ * are accepted so verifiers can learn them ahead of activation, retiring
+ * ones until their grace window ends, archived ones only when allowed.
+ */
+export function keyRejection(
+  kid: string,
+  info: KeyRotationInfo,
+  options: { archived?: boolean } = {}
+): string | undefined {
+  const state = keyState(info);
+  return state === 'revoked' || (state === 'archived' && !options.archived)
+    ? `Key ${kid} is ${state}`
+    : undefined;
+}
@@ -0,0 +1,300 @@
+import stringify from 'fast-json-stable-stringify';
+import { JWTPayload } from 'jose';
+import { v4 as uuidv4 } from 'uuid';
+import CloudlessCrypto, { hashSHA256 } from './cloudlessCrypto';
+import { SignedObject } from './jsonSignature';
+import { stripJwtClaims } from './tokenCrypto';
+import { CartLineItem } from './cartItem';
+import { LineTotal } from './cartTotals';
+import { CartPayload, CartSigningConfig } from './cloudlessCart';
+
+export const MARKETPLACE_CART_TYPE = 'marketplace-cart';
+export const MERCHANT_SEGMENT_TYPE = 'merchant-segment';
+
+/**
+ * One merchant's portion of a marketplace cart. Line totals are taken from
+ * the whole cart, so cart wide discounts are already allocated.
+ */
+export interface MerchantSegmentPayload {
+  type: typeof MERCHANT_SEGMENT_TYPE;
+  cartId: string;
+  revision: number;
+  merchantId: string;
+  currency: string;
+  items: CartLineItem[];
+  lines: LineTotal[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  /** Random, keeps the envelope hash from confirming guessed contents */
+  salt: string;
+}
+
+export interface MarketplaceSegment {
+  merchantId: string;
+  /** kid of the merchant encryption key */
+  encryptionKey: string;
+  /** SHA-256 of the salted segment payload */
+  hash: string;
+  /** JWE of the segment payload, readable by the merchant only */
+  token: string;
+}
+
+/**
+ * Signed outer envelope of a marketplace cart. The signature binds the
+ * segments of all merchants to one cart revision. Every merchant can read
+ * the envelope, so it carries no amounts or hashes of the cart.
+ */
+export interface MarketplaceEnvelope {
+  type: typeof MARKETPLACE_CART_TYPE;
+  version: number;
+  cartId: string;
+  revision: number;
+  currency: string;
+  segments: MarketplaceSegment[];
+  /** JWE of a MarketplaceCartCopy for the marketplace itself */
+  cart?: string;
+}
+
+/**
+ * The marketplace's own copy of the cart. With the segment salts the
+ * segments can be rebuilt from the cart and checked against the envelope
+ * hashes, binding them to this copy.
+ */
+export interface MarketplaceCartCopy {
+  cart: CartPayload;
+  /** Keyed by merchant id */
+  salts: Record<string, string>;
+}
+
+export interface OpenedSegment {
+  envelope: MarketplaceEnvelope;
+  segment: MerchantSegmentPayload;
+}
+
+/**
+ * Lines grouped by merchant, in order of first appearance. Throws if a line
+ * has no merchant.
+ */
+export function groupItemsByMerchant(
+  items: CartLineItem[]
+): Map<string, CartLineItem[]> {
+  const groups = new Map<string, CartLineItem[]>();
+  for (const item of items) {
+    if (item.merchantId === undefined) {
+      throw new Error(`Line item ${item.sku} has no merchant`);
+    }
+    groups.set(item.merchantId, [...(groups.get(item.merchantId) || []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Split a cart payload into one segment per merchant, salted with the given
+ * salts or fresh ones
+ */
+export function buildMerchantSegments(
+  payload: CartPayload,
+  salts: Record<string, string> = {}
+): MerchantSegmentPayload[] {
+  const segments: MerchantSegmentPayload[] = [];
+  for (const [merchantId, items] of groupItemsByMerchant(payload.items)) {
+    const lines = items.map(
+      item => payload.totals.lines[payload.items.indexOf(item)]
+    );
+    const sum = (field: 'gross' | 'discount' | 'tax' | 'total') =>
+      lines.reduce((total, line) => total + line[field], 0);
+    segments.push({
+      type: MERCHANT_SEGMENT_TYPE,
+      cartId: payload.cartId,
+      revision: payload.revision,
+      merchantId,
+      currency: payload.currency,
+      items,
+      lines,
+      subtotal: sum('gross'),
+      discount: sum('discount'),
+      tax: sum('tax'),
+      total: sum('total'),
+      salt: salts[merchantId] || uuidv4(),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Encrypt each merchant segment to that merchant's key and sign the
+ * envelope. merchantKeys maps merchant ids to encryption key ids, the
+ * public keys are enough (see TokenCrypto.importPublicKeyForEncryption).
+ * The whole cart is included for the marketplace when signing has an
+ * encryption key.
+ */
+export async function sealMarketplaceCart(
+  payload: CartPayload,
+  merchantKeys: Record<string, string>,
+  signing: CartSigningConfig
+): Promise<SignedObject> {
+  const crypto = signing.crypto;
+  const segments: MarketplaceSegment[] = [];
+  const salts: Record<string, string> = {};
+  for (const segment of buildMerchantSegments(payload)) {
+    salts[segment.merchantId] = segment.salt;
+    const encryptionKey = merchantKeys[segment.merchantId];
+    if (!encryptionKey) {
+      throw new Error(`No encryption key for merchant ${segment.merchantId}`);
+    }
+    segments.push({
+      merchantId: segment.merchantId,
+      encryptionKey,
+      hash: await hashSHA256(stringify(segment)),
+      token: await crypto.encryptToken(
+        encryptionKey,
+        segment as unknown as JWTPayload,
+        signing.encryptionOptions
+      ),
+    });
+  }
+  const envelope: MarketplaceEnvelope = {
+    type: MARKETPLACE_CART_TYPE,
+    version: payload.version,
+    cartId: payload.cartId,
+    revision: payload.revision,
+    currency: payload.currency,
+    segments,
+  };
+  if (signing.encryptionKey) {
+    const copy: MarketplaceCartCopy = { cart: payload, salts };
+    envelope.cart = await crypto.encryptToken(
+      signing.encryptionKey,
+      copy as unknown as JWTPayload,
+      signing.encryptionOptions
+    );
+  }
+  return (await crypto.signObject(
+    signing.signingKey,
+    envelope as unknown as Record<string, unknown>
+  )) as SignedObject;
+}
+
+/**
+ * Verify the marketplace signature of an envelope
+ */
+export async function verifyMarketplaceEnvelope(
+  token: SignedObject,
+  crypto: CloudlessCrypto,
+  signingKey: string
+): Promise<MarketplaceEnvelope> {
+  const verified = await crypto.verifyObject(token, signingKey);
+  if (verified.error) {
+    throw new Error(
+      `Marketplace cart verification failed: ${String(verified.error)}`
+    );
+  }
+  const envelope = verified as unknown as MarketplaceEnvelope;
+  if (
+    envelope.type !== MARKETPLACE_CART_TYPE ||
+    !Array.isArray(envelope.segments)
+  ) {
+    throw new Error('Not a marketplace cart');
+  }
+  return envelope;
+}
+
+/**
+ * Decrypt a sealed part of an envelope, without the JWT claims added when
+ * it was encrypted
+ */
+export async function decryptSealed(
+  crypto: CloudlessCrypto,
+  encryptionKey: string,
+  token: string
+): Promise<Record<string, unknown>> {
+  return stripJwtClaims(await crypto.decryptToken(encryptionKey, token));
+}
+
+/**
+ * Verify an envelope with the marketplace signing key and decrypt the
+ * segment of one merchant with its encryption key
+ */
+export async function openMerchantSegment(
+  token: SignedObject,
+  merchantId: string,
+  crypto: CloudlessCrypto,
+  keys: { signingKey: string; encryptionKey: string }
+): Promise<OpenedSegment> {
+  const envelope = await verifyMarketplaceEnvelope(
+    token,
+    crypto,
+    keys.signingKey
+  );
+  const sealed = envelope.segments.find(
+    segment => segment.merchantId === merchantId
+  );
+  if (!sealed) {
+    throw new Error(`Marketplace cart has no segment for ${merchantId}`);
+  }
+  const segment = (await decryptSealed(
+    crypto,
+    keys.encryptionKey,
+    sealed.token
+  )) as unknown as MerchantSegmentPayload;
+  if ((await hashSHA256(stringify(segment))) !== sealed.hash) {
+    throw new Error('Merchant segment does not match the envelope');
+  }
+  if (
+    segment.type !== MERCHANT_SEGMENT_TYPE ||
+    segment.merchantId !== merchantId ||
+    segment.cartId !== envelope.cartId ||
+    segment.revision !== envelope.revision
+  ) {
+    throw new Error('Merchant segment does not belong to this cart');
+  }
+  return { envelope, segment };
+}
+
+/**
+ * Verify an envelope with the marketplace signing key and decrypt the
+ * marketplace's copy of the cart. Throws unless the segments rebuilt from
+ * the copy match the envelope.
+ */
+export async function openMarketplaceCart(
+  token: SignedObject,
+  crypto: CloudlessCrypto,
+  keys: { signingKey: string; encryptionKey: string }
+): Promise<CartPayload> {
+  const envelope = await verifyMarketplaceEnvelope(
+    token,
+    crypto,
+    keys.signingKey
+  );
+  if (!envelope.cart) {
+    throw new Error('Restoring a marketplace cart requires its encrypted cart');
+  }
+  const copy = (await decryptSealed(
+    crypto,
+    keys.encryptionKey,
+    envelope.cart
+  )) as unknown as MarketplaceCartCopy;
+  if (
+    copy.cart?.cartId !== envelope.cartId ||
+    copy.cart.revision !== envelope.revision
+  ) {
+    throw new Error('Marketplace cart does not match the envelope');
+  }
+  const segments = buildMerchantSegments(copy.cart, copy.salts || {});
+  const hashes = await Promise.all(
+    segments.map(segment => hashSHA256(stringify(segment)))
+  );
+  if (
+    segments.length !== envelope.segments.length ||
+    envelope.segments.some(
+      (sealed, index) =>
+        sealed.merchantId !== segments[index].merchantId ||
+        sealed.hash !== hashes[index]
+    )
+  ) {
+    throw new Error('Marketplace cart does not match its merchant segments');
+  }
+  return copy.cart;
+}
@@ -0,0 +1,247 @@
+// Money helpers. Amounts are always integers in the minor unit of their
+// currency (cents for USD, yen for JPY) so arithmetic is exact and the
+// values embedded in a signed cart can be reproduced by any verifier.
+
+export type RoundingMode =
+  | 'half-up'
+  | 'half-down'
+  | 'half-even'
+  | 'up'
+  | 'down';
+
+export const ROUNDING_MODES: RoundingMode[] = [
+  'half-up',
+  'half-down',
+  'half-even',
+  'up',
+  'down',
+];
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+// ISO 4217 currencies whose minor unit is not 2 decimal places
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BHD: 3,
+  BIF: 0,
+  CLF: 4,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  PYG: 0,
+  RWF: 0,
+  TND: 3,
+  UGX: 0,
+  UYI: 0,
+  UYW: 4,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+};
+
+export function isCurrencyCode(currency: unknown): currency is string {
+  return typeof currency === 'string' && /^[A-Z]{3}$/.test(currency);
+}
+
+/**
+ * Number of decimal places in the minor unit of an ISO 4217 currency
+ */
+export function getCurrencyExponent(currency: string): number {
+  if (!isCurrencyCode(currency)) {
+    throw new Error(`Invalid currency code ${String(currency)}`);
+  }
+  return CURRENCY_EXPONENTS[currency] ?? 2;
+}
+
+export function isMinorUnits(amount: unknown): amount is number {
+  return typeof amount === 'number' && Number.isSafeInteger(amount);
+}
+
+export function assertMinorUnits(amount: unknown, label = 'Amount'): number {
+  if (!isMinorUnits(amount)) {
+    throw new Error(`${label} must be an integer amount in minor units`);
+  }
+  return amount;
+}
+
+export function createMoney(amount: number, currency: string): Money {
+  getCurrencyExponent(currency);
+  return { amount: assertMinorUnits(amount), currency };
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+  return createMoney(a.amount + b.amount, a.currency);
+}
+
+/**
+ * Integer division with explicit rounding, denominator must be positive
+ */
+export function roundDivide(
+  numerator: number,
+  denominator: number,
+  rounding: RoundingMode = 'half-even'
+): number {
+  if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator)) {
+    throw new Error('roundDivide requires safe integers');
+  }
+  if (denominator <= 0) {
+    throw new Error('roundDivide requires a positive denominator');
+  }
+  const sign = numerator < 0 ? -1 : 1;
+  const absolute = Math.abs(numerator);
+  const quotient = Math.floor(absolute / denominator);
+  const remainder = absolute - quotient * denominator;
+  if (remainder === 0) {
+    return sign * quotient;
+  }
+  const twice = remainder * 2;
+  let roundAway: boolean;
+  switch (rounding) {
+    case 'up':
+      roundAway = true;
+      break;
+    case 'down':
+      roundAway = false;
+      break;
+    case 'half-up':
+      roundAway = twice >= denominator;
+      break;
+    case 'half-down':
+      roundAway = twice > denominator;
+      break;
+    case 'half-even':
+      roundAway =
+        twice > denominator || (twice === denominator && quotient % 2 === 1);
+      break;
+    default:
+      throw new Error(`Unknown rounding mode ${String(rounding)}`);
+  }
+  return sign * (roundAway ? quotient + 1 : quotient);
+}
+
+/**
+ * Parse a decimal string (or number) into an integer and a power of ten scale,
+ * '12.345' becomes { value: 12345, scale: 3 }
+ */
+export function parseDecimal(input: string | number): {
+  value: number;
+  scale: number;
+} {
+  const text = typeof input === 'number' ? String(input) : input;
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid decimal value ${String(input)}`);
+  }
+  const fraction = match[3] || '';
+  const value = Number(`${match[1]}${match[2]}${fraction}`);
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`Decimal value ${text} is out of range`);
+  }
+  return { value, scale: fraction.length };
+}
+
+/**
+ * Convert a decimal amount like '19.99' into minor units of the currency
+ */
+export function toMinorUnits(
+  value: string | number,
+  currency: string,
+  rounding: RoundingMode = 'half-even'
+): number {
+  const exponent = getCurrencyExponent(currency);
+  const decimal = parseDecimal(value);
+  if (decimal.scale <= exponent) {
+    return assertMinorUnits(decimal.value * 10 ** (exponent - decimal.scale));
+  }
+  return roundDivide(decimal.value, 10 ** (decimal.scale - exponent), rounding);
+}
+
+/**
+ * Format minor units as a decimal string, 1999 USD becomes '19.99'
+ */
+export function fromMinorUnits(amount: number, currency: string): string {
+  const exponent = getCurrencyExponent(currency);
+  assertMinorUnits(amount);
+  const digits = String(Math.abs(amount)).padStart(exponent + 1, '0');
+  const sign = amount < 0 ? '-' : '';
+  if (exponent === 0) {
+    return `${sign}${digits}`;
+  }
+  const whole = digits.slice(0, digits.length - exponent);
+  return `${sign}${whole}.${digits.slice(digits.length - exponent)}`;
+}
+
+export function formatMoney(money: Money): string {
+  return `${fromMinorUnits(money.amount, money.currency)} ${money.currency}`;
+}
+
+/**
+ * Multiply an amount by a decimal rate ('0.0825' for 8.25%) and round the
+ * result back to minor units
+ */
+export function multiplyByRate(
+  amount: number,
+  rate: string | number,
+  rounding: RoundingMode = 'half-even'
+): number {
+  assertMinorUnits(amount);
+  const decimal = parseDecimal(rate);
+  const product = amount * decimal.value;
+  if (!Number.isSafeInteger(product)) {
+    throw new Error('Amount is too large to apply rate precisely');
+  }
+  return roundDivide(product, 10 ** decimal.scale, rounding);
+}
+
+/**
+ * Split an amount across weights without losing or creating minor units.
+ * Remainders go to the largest fractional shares, ties to the earliest entry.
+ */
+export function allocate(amount: number, weights: number[]): number[] {
+  assertMinorUnits(amount);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || totalWeight <= 0) {
+    if (amount === 0) {
+      return weights.map(() => 0);
+    }
+    throw new Error('Cannot allocate an amount across zero weights');
+  }
+  const sign = amount < 0 ? -1 : 1;
+  const absolute = Math.abs(amount);
+  const shares = weights.map((weight, index) => {
+    const product = absolute * weight;
+    if (!Number.isSafeInteger(product)) {
+      throw new Error('Amount is too large to allocate precisely');
+    }
+    const share = Math.floor(product / totalWeight);
+    return { index, share, remainder: product - share * totalWeight };
+  });
+  let left = absolute - shares.reduce((sum, entry) => sum + entry.share, 0);
+  const byRemainder = [...shares].sort(
+    (a, b) => b.remainder - a.remainder || a.index - b.index
+  );
+  for (const entry of byRemainder) {
+    if (left === 0) {
+      break;
+    }
+    entry.share += 1;
+    left -= 1;
+  }
+  return shares.map(entry => sign * entry.share);
+}
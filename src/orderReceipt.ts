@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import JsonSignature, { SignedObject } from './jsonSignature';
+import { verifyTrustedToken } from './trustedToken';
+import { CartItemOptions } from './cartItem';
+import { CartTotals } from './cartTotals';
+import { CartPayload, hashCartPayload } from './cloudlessCart';
+
+export const ORDER_RECEIPT_TYPE = 'order-receipt';
+
+/**
+ * How the order was paid, as reported by the payment provider
+ */
+export interface PaymentReference {
+  /** e.g. 'stripe' */
+  provider: string;
+  /** The provider's id of the payment or charge */
+  reference: string;
+  /** When the payment was captured, ms since the epoch */
+  capturedAt?: number;
+}
+
+export interface ReceiptLine {
+  sku: string;
+  name?: string;
+  options?: CartItemOptions;
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Claims signed by the merchant. Amounts are minor units of currency.
+ */
+export interface OrderReceiptClaims {
+  type: typeof ORDER_RECEIPT_TYPE;
+  receiptId: string;
+  orderId?: string;
+  cartId: string;
+  revision: number;
+  /** hashCartPayload of the purchased revision */
+  cartHash: string;
+  currency: string;
+  lines: ReceiptLine[];
+  totals: CartTotals;
+  payment: PaymentReference;
+  issuedAt: number;
+}
+
+export interface ReceiptRequest {
+  payment: PaymentReference;
+  orderId?: string;
+  /** Defaults to now */
+  issuedAt?: number;
+}
+
+/**
+ * A merchant key and the period it signed receipts in. Keep the public
+ * half of retired keys in the signer's key store so their receipts still
+ * verify.
+ */
+export interface ReceiptKeyPeriod {
+  kid: string;
+  /** First issuedAt signed with the key, unbounded when unset */
+  from?: number;
+  /** Retirement time, receipts issued later are rejected */
+  until?: number;
+  /**
+   * Keep verifying with the key after KeyRotation archived it, receipts
+   * usually outlive the rotation grace period
+   */
+  archived?: boolean;
+}
+
+export interface ReceiptCheck {
+  valid: boolean;
+  error?: string;
+  claims?: OrderReceiptClaims;
+}
+
+function validatePayment(payment: PaymentReference): void {
+  if (
+    typeof payment?.provider !== 'string' ||
+    payment.provider.length === 0 ||
+    typeof payment.reference !== 'string' ||
+    payment.reference.length === 0
+  ) {
+    throw new Error('Receipt payment needs a provider and reference');
+  }
+}
+
+/**
+ * Issues portable order receipts for purchased carts and verifies them
+ * against the merchant's current and retired keys
+ */
+export default class OrderReceipts {
+  private readonly signer: JsonSignature;
+
+  constructor(signer: JsonSignature) {
+    this.signer = signer;
+  }
+
+  /**
+   * Issue a receipt for a verified cart payload, e.g. the cart of a
+   * checkout session, signed with a long-lived merchant key
+   */
+  public async issueReceipt(
+    key: string,
+    payload: CartPayload,
+    request: ReceiptRequest
+  ): Promise<SignedObject> {
+    validatePayment(request.payment);
+    const claims: OrderReceiptClaims = {
+      type: ORDER_RECEIPT_TYPE,
+      receiptId: uuidv4(),
+      cartId: payload.cartId,
+      revision: payload.revision,
+      cartHash: await hashCartPayload(payload),
+      currency: payload.currency,
+      lines: payload.items.map(item => {
+        const line: ReceiptLine = {
+          sku: item.sku,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        };
+        if (item.name !== undefined) {
+          line.name = item.name;
+        }
+        if (item.options) {
+          line.options = { ...item.options };
+        }
+        return line;
+      }),
+      totals: payload.totals,
+      payment: { ...request.payment },
+      issuedAt: request.issuedAt ?? Date.now(),
+    };
+    if (request.orderId !== undefined) {
+      claims.orderId = request.orderId;
+    }
+    return await this.signer.sign(
+      key,
+      claims as unknown as Record<string, unknown>
+    );
+  }
+
+  /**
+   * Verify a receipt against the merchant keys. A retired key still
+   * verifies the receipts issued while it was in use.
+   */
+  public async verifyReceipt(
+    receipt: SignedObject,
+    keys: ReceiptKeyPeriod[]
+  ): Promise<ReceiptCheck> {
+    const check = await verifyTrustedToken<OrderReceiptClaims>(
+      this.signer,
+      receipt,
+      keys.map(entry => entry.kid),
+      {
+        type: ORDER_RECEIPT_TYPE,
+        name: 'Receipt',
+        typeError: 'Not an order receipt',
+        archivedKeys: keys
+          .filter(entry => entry.archived)
+          .map(entry => entry.kid),
+      }
+    );
+    if (!check.valid || !check.claims) {
+      return { valid: false, error: check.error };
+    }
+    const claims = check.claims;
+    const period = keys.find(
+      entry => entry.kid === check.kid
+    ) as ReceiptKeyPeriod;
+    if (
+      (period.from !== undefined && claims.issuedAt < period.from) ||
+      (period.until !== undefined && claims.issuedAt >= period.until)
+    ) {
+      return {
+        valid: false,
+        error: `Receipt was issued outside the period of key ${period.kid}`,
+        claims,
+      };
+    }
+    return { valid: true, claims };
+  }
+}
@@ -0,0 +1,179 @@
+import JsonSignature, { SignedObject } from './jsonSignature';
+import { verifyTrustedToken } from './trustedToken';
+import { CartItemOptions, CartLineItem, lineItemKey } from './cartItem';
+import { CartPayload } from './cloudlessCart';
+import { getCurrencyExponent, isMinorUnits } from './money';
+
+export const PRICE_ATTESTATION_TYPE = 'price-attestation';
+
+/**
+ * Claims signed by the merchant. Times are milliseconds since the epoch.
+ */
+export interface PriceAttestationClaims {
+  type: typeof PRICE_ATTESTATION_TYPE;
+  sku: string;
+  options?: CartItemOptions;
+  unitPrice: number;
+  currency: string;
+  validFrom: number;
+  validUntil: number;
+}
+
+export interface AttestationRequest {
+  sku: string;
+  options?: CartItemOptions;
+  unitPrice: number;
+  currency: string;
+  /** Defaults to now */
+  validFrom?: number;
+  /** Defaults to validFrom + 15 minutes */
+  validUntil?: number;
+}
+
+export interface AttestationCheck {
+  valid: boolean;
+  error?: string;
+  claims?: PriceAttestationClaims;
+}
+
+export interface LineAttestationCheck extends AttestationCheck {
+  sku: string;
+  options?: CartItemOptions;
+}
+
+export interface CartAttestationResult {
+  valid: boolean;
+  lines: LineAttestationCheck[];
+}
+
+export interface AttestationVerifyOptions {
+  /** kids of merchant keys whose attestations are accepted */
+  trustedKeys: string[];
+  /** Fail lines that carry no attestation, defaults to true */
+  requireAll?: boolean;
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+}
+
+const DEFAULT_VALIDITY = 15 * 60 * 1000;
+
+/**
+ * Issues and checks merchant-signed price attestations for single line items,
+ * so a cart held by the client can prove each price came from the merchant.
+ */
+export default class PriceAttestor {
+  private readonly signer: JsonSignature;
+
+  constructor(signer: JsonSignature) {
+    this.signer = signer;
+  }
+
+  public async attest(
+    key: string,
+    request: AttestationRequest
+  ): Promise<SignedObject> {
+    if (!isMinorUnits(request.unitPrice) || request.unitPrice < 0) {
+      throw new Error('Attested unitPrice must be a non-negative integer');
+    }
+    getCurrencyExponent(request.currency);
+    const validFrom = request.validFrom ?? Date.now();
+    const validUntil = request.validUntil ?? validFrom + DEFAULT_VALIDITY;
+    if (validUntil <= validFrom) {
+      throw new Error('Attestation validUntil must be after validFrom');
+    }
+    const claims: PriceAttestationClaims = {
+      type: PRICE_ATTESTATION_TYPE,
+      sku: request.sku,
+      unitPrice: request.unitPrice,
+      currency: request.currency,
+      validFrom,
+      validUntil,
+    };
+    if (request.options && Object.keys(request.options).length > 0) {
+      claims.options = { ...request.options };
+    }
+    return await this.signer.sign(
+      key,
+      claims as unknown as Record<string, unknown>
+    );
+  }
+
+  /**
+   * Verify the signature, issuer key and validity window of an attestation
+   */
+  public async verifyAttestation(
+    attestation: SignedObject,
+    trustedKeys: string[],
+    now = Date.now()
+  ): Promise<AttestationCheck> {
+    return await verifyTrustedToken<PriceAttestationClaims>(
+      this.signer,
+      attestation,
+      trustedKeys,
+      {
+        type: PRICE_ATTESTATION_TYPE,
+        name: 'Attestation',
+        typeError: 'Not a price attestation',
+        now,
+      }
+    );
+  }
+
+  /**
+   * Check the attestation on one line: valid, trusted and matching the line
+   */
+  public async verifyLine(
+    item: CartLineItem,
+    currency: string,
+    options: AttestationVerifyOptions
+  ): Promise<LineAttestationCheck> {
+    const line: LineAttestationCheck = { sku: item.sku, valid: false };
+    if (item.options) {
+      line.options = item.options;
+    }
+    if (!item.attestation) {
+      if (options.requireAll === false) {
+        return { ...line, valid: true };
+      }
+      return { ...line, error: 'Missing price attestation' };
+    }
+    const check = await this.verifyAttestation(
+      item.attestation,
+      options.trustedKeys,
+      options.now
+    );
+    if (!check.valid || !check.claims) {
+      return { ...line, ...check };
+    }
+    const claims = check.claims;
+    let error: string | undefined;
+    if (
+      lineItemKey(claims.sku, claims.options) !==
+      lineItemKey(item.sku, item.options)
+    ) {
+      error = 'Attestation is for a different item';
+    } else if (claims.unitPrice !== item.unitPrice) {
+      error = `Attested price ${claims.unitPrice} does not match ${item.unitPrice}`;
+    } else if (claims.currency !== currency) {
+      error = `Attested currency ${claims.currency} does not match ${currency}`;
+    }
+    if (error) {
+      return { ...line, error, claims };
+    }
+    return { ...line, valid: true, claims };
+  }
+
+  /**
+   * Check every line of a verified cart payload
+   */
+  public async verifyCartAttestations(
+    payload: CartPayload,
+    options: AttestationVerifyOptions
+  ): Promise<CartAttestationResult> {
+    const lines: LineAttestationCheck[] = [];
+    for (const item of payload.items) {
+      lines.push(await this.verifyLine(item, payload.currency, options));
+    }
+    return { valid: lines.every(line => line.valid), lines };
+  }
+}
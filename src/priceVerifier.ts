@@ -0,0 +1,323 @@
+import stringify from 'fast-json-stable-stringify';
+import CloudlessCrypto from './cloudlessCrypto';
+import { SignedObject } from './jsonSignature';
+import { CartItemOptions, CartLineItem } from './cartItem';
+import { CartPayload, parseCartPayload, shippingCharge } from './cloudlessCart';
+import { calculateCartTotals, CartTotals } from './cartTotals';
+import { hasTaxBreakdown, RecordedTaxCalculator } from './tax';
+import PriceAttestor, {
+  AttestationVerifyOptions,
+  CartAttestationResult,
+} from './priceAttestation';
+import PromotionEngine, {
+  CouponVerifyOptions,
+  PromotionCheck,
+} from './promotion';
+import ShippingQuoter, {
+  ShippingQuoteCheck,
+  ShippingVerifyOptions,
+} from './shippingQuote';
+
+/**
+ * Source of current prices. Returns the unit price in minor units of the
+ * requested currency, or undefined when the SKU is no longer sold.
+ */
+export interface PriceCatalog {
+  getPrice(
+    sku: string,
+    currency: string,
+    options?: CartItemOptions
+  ): Promise<number | undefined>;
+}
+
+export type PriceDecision = 'accept' | 'requote' | 'reject';
+
+export interface PriceDrift {
+  sku: string;
+  options?: CartItemOptions;
+  signedUnitPrice: number;
+  currentUnitPrice: number;
+  difference: number;
+}
+
+export interface RemovedLine {
+  sku: string;
+  options?: CartItemOptions;
+}
+
+export interface PriceVerificationResult {
+  decision: PriceDecision;
+  signatureValid: boolean;
+  errors: string[];
+  priceDrift: PriceDrift[];
+  removed: RemovedLine[];
+  /** True when the signed totals cannot be reproduced from the signed lines */
+  totalsMismatch: boolean;
+  signedTotal?: number;
+  currentTotals?: CartTotals;
+  /** currentTotals.total - signedTotal */
+  totalDifference?: number;
+  /** Present when the verifier is configured to check price attestations */
+  attestations?: CartAttestationResult;
+  /** Present when the verifier is configured to re-evaluate coupons */
+  promotions?: PromotionCheck;
+  /** Present when the verifier is configured to check shipping quotes */
+  shipping?: ShippingQuoteCheck;
+  payload?: CartPayload;
+}
+
+export interface PriceVerifierOptions {
+  /** Per unit drift in minor units that is still accepted, defaults to 0 */
+  tolerance?: number;
+  /** Require valid merchant price attestations, see PriceAttestor */
+  attestations?: AttestationVerifyOptions & { attestor: PriceAttestor };
+  /** Re-evaluate coupon discounts, see PromotionEngine */
+  promotions?: CouponVerifyOptions & { engine: PromotionEngine };
+  /** Require a valid shipping quote for the cart, see ShippingQuoter */
+  shipping?: ShippingVerifyOptions & { quoter: ShippingQuoter };
+}
+
+/**
+ * Simple in-memory catalog, prices in minor units keyed by SKU
+ */
+export class StaticPriceCatalog implements PriceCatalog {
+  private readonly prices: Map<string, number>;
+  private readonly currency: string;
+
+  constructor(prices: Record<string, number>, currency = 'USD') {
+    this.prices = new Map(Object.entries(prices));
+    this.currency = currency;
+  }
+
+  public setPrice(sku: string, unitPrice: number): void {
+    this.prices.set(sku, unitPrice);
+  }
+
+  public removePrice(sku: string): void {
+    this.prices.delete(sku);
+  }
+
+  public getPrice(sku: string, currency: string): Promise<number | undefined> {
+    if (currency !== this.currency) {
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(this.prices.get(sku));
+  }
+}
+
+/**
+ * Verifies a presented cart and re-prices it against a catalog so checkout
+ * can decide whether to accept it, re-quote it or reject it.
+ *
+ * - reject: bad signature, malformed payload, totals that do not match the
+ *   signed lines (the cart was not produced by CloudlessCart) or, when
+ *   configured, a missing, untrusted, mismatched or expired price attestation
+ *   or a coupon discount that no longer re-evaluates to the signed one, or
+ *   a shipping quote that is missing or not bound to the cart
+ * - requote: the cart is authentic but prices drifted, SKUs were removed or
+ *   the shipping quote expired or is for an older revision
+ * - accept: the cart is authentic and still priced correctly
+ */
+export default class PriceVerifier {
+  private readonly crypto: CloudlessCrypto;
+  private readonly catalog: PriceCatalog;
+  private readonly tolerance: number;
+  private readonly attestations?: PriceVerifierOptions['attestations'];
+  private readonly promotions?: PriceVerifierOptions['promotions'];
+  private readonly shipping?: PriceVerifierOptions['shipping'];
+
+  constructor(
+    crypto: CloudlessCrypto,
+    catalog: PriceCatalog,
+    options: PriceVerifierOptions = {}
+  ) {
+    this.crypto = crypto;
+    this.catalog = catalog;
+    this.tolerance = options.tolerance ?? 0;
+    this.attestations = options.attestations;
+    this.promotions = options.promotions;
+    this.shipping = options.shipping;
+  }
+
+  public async verifySignedCart(
+    signed: SignedObject,
+    key?: string
+  ): Promise<PriceVerificationResult> {
+    const verified = await this.crypto.verifyObject(signed, key);
+    if (verified.error) {
+      return this.rejected(false, String(verified.error));
+    }
+    return await this.checkPrices(verified);
+  }
+
+  public async verifyEncryptedCart(
+    signingKey: string,
+    encryptionKey: string,
+    token: SignedObject
+  ): Promise<PriceVerificationResult> {
+    let decrypted: Record<string, unknown>;
+    try {
+      decrypted = await this.crypto.verifyThenDecrypt(
+        signingKey,
+        encryptionKey,
+        token
+      );
+    } catch (e) {
+      return this.rejected(false, (e as Error).message);
+    }
+    return await this.checkPrices(decrypted);
+  }
+
+  /**
+   * Re-price an already verified payload
+   */
+  public async checkPrices(
+    verified: Record<string, unknown>
+  ): Promise<PriceVerificationResult> {
+    let payload: CartPayload;
+    try {
+      payload = parseCartPayload(verified);
+    } catch (e) {
+      return this.rejected(true, (e as Error).message);
+    }
+    const options = {
+      currency: payload.currency,
+      taxRate: payload.taxRate,
+      rounding: payload.rounding,
+      taxCalculator: hasTaxBreakdown(payload.totals)
+        ? new RecordedTaxCalculator(payload.totals)
+        : undefined,
+      shipping: shippingCharge(payload),
+    };
+    const recomputed = calculateCartTotals(
+      payload.items,
+      payload.discounts,
+      options
+    );
+    const totalsMismatch = stringify(recomputed) !== stringify(payload.totals);
+
+    const priceDrift: PriceDrift[] = [];
+    const removed: RemovedLine[] = [];
+    const currentItems: CartLineItem[] = [];
+    for (const item of payload.items) {
+      const current = await this.catalog.getPrice(
+        item.sku,
+        payload.currency,
+        item.options
+      );
+      if (current === undefined) {
+        removed.push(
+          item.options
+            ? { sku: item.sku, options: item.options }
+            : { sku: item.sku }
+        );
+        continue;
+      }
+      if (current !== item.unitPrice) {
+        const drift: PriceDrift = {
+          sku: item.sku,
+          signedUnitPrice: item.unitPrice,
+          currentUnitPrice: current,
+          difference: current - item.unitPrice,
+        };
+        if (item.options) {
+          drift.options = item.options;
+        }
+        priceDrift.push(drift);
+      }
+      currentItems.push({ ...item, unitPrice: current });
+    }
+    const currentTotals = calculateCartTotals(
+      currentItems,
+      payload.discounts,
+      options
+    );
+
+    const errors: string[] = [];
+    if (totalsMismatch) {
+      errors.push('Signed totals do not match signed line items');
+    }
+    let attestations: CartAttestationResult | undefined;
+    if (this.attestations) {
+      attestations = await this.attestations.attestor.verifyCartAttestations(
+        payload,
+        this.attestations
+      );
+      for (const line of attestations.lines) {
+        if (!line.valid) {
+          errors.push(`Line ${line.sku}: ${String(line.error)}`);
+        }
+      }
+    }
+    let promotions: PromotionCheck | undefined;
+    if (this.promotions) {
+      promotions = await this.promotions.engine.verifyCartPromotions(
+        payload,
+        this.promotions
+      );
+      errors.push(...promotions.errors);
+    }
+    let shipping: ShippingQuoteCheck | undefined;
+    if (this.shipping) {
+      shipping = await this.shipping.quoter.verifyCartShipping(
+        payload,
+        this.shipping
+      );
+      if (!shipping.valid) {
+        errors.push(String(shipping.error));
+      }
+    }
+    let decision: PriceDecision = 'accept';
+    if (
+      totalsMismatch ||
+      (attestations && !attestations.valid) ||
+      (promotions && !promotions.valid) ||
+      (shipping && !shipping.valid && !shipping.expired && !shipping.stale)
+    ) {
+      decision = 'reject';
+    } else if (
+      shipping?.expired ||
+      shipping?.stale ||
+      removed.length > 0 ||
+      priceDrift.some(drift => Math.abs(drift.difference) > this.tolerance)
+    ) {
+      decision = 'requote';
+    }
+    const result: PriceVerificationResult = {
+      decision,
+      signatureValid: true,
+      errors,
+      priceDrift,
+      removed,
+      totalsMismatch,
+      signedTotal: payload.totals.total,
+      currentTotals,
+      totalDifference: currentTotals.total - payload.totals.total,
+      payload,
+    };
+    if (attestations) {
+      result.attestations = attestations;
+    }
+    if (promotions) {
+      result.promotions = promotions;
+    }
+    if (shipping) {
+      result.shipping = shipping;
+    }
+    return result;
+  }
+
+  private rejected(
+    signatureValid: boolean,
+    error: string
+  ): PriceVerificationResult {
+    return {
+      decision: 'reject',
+      signatureValid,
+      errors: [error],
+      priceDrift: [],
+      removed: [],
+      totalsMismatch: false,
+    };
+  }
+}
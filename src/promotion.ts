@@ -0,0 +1,511 @@
+import stringify from 'fast-json-stable-stringify';
+import { v4 as uuidv4 } from 'uuid';
+import JsonSignature, { SignedObject } from './jsonSignature';
+import { verifyTrustedToken } from './trustedToken';
+import { CartLineItem } from './cartItem';
+import { CartDiscount } from './cartTotals';
+import { CartPayload } from './cloudlessCart';
+import {
+  getCurrencyExponent,
+  isMinorUnits,
+  multiplyByRate,
+  parseDecimal,
+  RoundingMode,
+} from './money';
+import {
+  checkRedemptionLimits,
+  Redemption,
+  RedemptionLedger,
+  RedemptionLimits,
+  RedemptionRequest,
+} from './redemptionLedger';
+
+export const COUPON_TYPE = 'coupon';
+
+/** Prefix of the ids of discounts derived from coupons */
+export const COUPON_DISCOUNT_PREFIX = 'coupon:';
+
+export type PromotionRule =
+  | { kind: 'percent'; rate: string }
+  | { kind: 'fixed'; amount: number }
+  /** Every buy + get units, the cheapest get units are discounted by rate */
+  | { kind: 'buy-x-get-y'; buy: number; get: number; rate?: string }
+  /** Waives the shipping charge, see ShippingQuoter */
+  | { kind: 'free-shipping' };
+
+/**
+ * exclusive coupons cannot be combined with any other coupon, stackable
+ * coupons combine with other stackable coupons
+ */
+export type CouponStacking = 'exclusive' | 'stackable';
+
+/**
+ * Claims signed by the merchant. Times are milliseconds since the epoch,
+ * amounts are minor units of currency.
+ */
+export interface CouponClaims {
+  type: typeof COUPON_TYPE;
+  /** Unique id of this coupon token, tracked by a RedemptionLedger */
+  jti?: string;
+  code: string;
+  rule: PromotionRule;
+  stacking: CouponStacking;
+  description?: string;
+  /** Required for fixed amounts and minSpend */
+  currency?: string;
+  /** Cart subtotal needed before the coupon applies */
+  minSpend?: number;
+  /** Only lines with these SKUs (or categories) are discounted */
+  skus?: string[];
+  categories?: string[];
+  /** Total redemptions allowed, unlimited when unset */
+  maxRedemptions?: number;
+  /** Redemptions allowed per customer, unlimited when unset */
+  perCustomer?: number;
+  validFrom: number;
+  validUntil: number;
+}
+
+export type CouponRequest = Omit<
+  CouponClaims,
+  'type' | 'jti' | 'stacking' | 'maxRedemptions' | 'validFrom' | 'validUntil'
+> & {
+  /** Defaults to 1, a single-use coupon */
+  maxRedemptions?: number | 'unlimited';
+  /** Defaults to exclusive */
+  stacking?: CouponStacking;
+  /** Defaults to now */
+  validFrom?: number;
+  /** Defaults to validFrom + 30 days */
+  validUntil?: number;
+};
+
+export interface CouponCheck {
+  valid: boolean;
+  error?: string;
+  claims?: CouponClaims;
+}
+
+export interface CouponVerifyOptions {
+  /** kids of merchant keys whose coupons are accepted */
+  trustedKeys: string[];
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+  /** Reject coupons that were already redeemed up to their limits */
+  ledger?: RedemptionLedger;
+  /** Customer redeeming, needed for coupons with a perCustomer limit */
+  customerId?: string;
+}
+
+export interface RedemptionResult {
+  valid: boolean;
+  errors: string[];
+  redemptions: Redemption[];
+}
+
+export interface RejectedCoupon {
+  code?: string;
+  error: string;
+}
+
+export interface PromotionResult {
+  /** Discounts to embed in the cart, in coupon order */
+  discounts: CartDiscount[];
+  rejected: RejectedCoupon[];
+  freeShipping: boolean;
+}
+
+export interface PromotionCheck {
+  valid: boolean;
+  errors: string[];
+  /** Coupon discounts the cart should carry */
+  expected: CartDiscount[];
+}
+
+export interface EvaluatedCoupon {
+  claims: CouponClaims;
+  token?: SignedObject;
+}
+
+const DEFAULT_VALIDITY = 30 * 24 * 60 * 60 * 1000;
+
+export function couponDiscountId(code: string): string {
+  return `${COUPON_DISCOUNT_PREFIX}${code}`;
+}
+
+function redemptionId(claims: CouponClaims): string {
+  return claims.jti ?? claims.code;
+}
+
+function redemptionLimits(claims: CouponClaims): RedemptionLimits {
+  const limits: RedemptionLimits = {};
+  if (claims.maxRedemptions !== undefined) {
+    limits.maxRedemptions = claims.maxRedemptions;
+  }
+  if (claims.perCustomer !== undefined) {
+    limits.perCustomer = claims.perCustomer;
+  }
+  return limits;
+}
+
+function isLimit(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isRate(rate: string): boolean {
+  const { value, scale } = parseDecimal(rate);
+  return value > 0 && value <= 10 ** scale;
+}
+
+function validateRule(rule: PromotionRule): void {
+  switch (rule?.kind) {
+    case 'percent':
+      if (!isRate(rule.rate)) {
+        throw new Error('Percent coupon rate must be above 0 and at most 1');
+      }
+      return;
+    case 'fixed':
+      if (!isMinorUnits(rule.amount) || rule.amount <= 0) {
+        throw new Error('Fixed coupon amount must be a positive integer');
+      }
+      return;
+    case 'buy-x-get-y':
+      if (
+        !Number.isInteger(rule.buy) ||
+        !Number.isInteger(rule.get) ||
+        rule.buy < 1 ||
+        rule.get < 1
+      ) {
+        throw new Error('Buy-x-get-y coupon needs positive buy and get');
+      }
+      if (rule.rate !== undefined && !isRate(rule.rate)) {
+        throw new Error(
+          'Buy-x-get-y coupon rate must be above 0 and at most 1'
+        );
+      }
+      return;
+    case 'free-shipping':
+      return;
+    default:
+      throw new Error('Unknown coupon rule');
+  }
+}
+
+/**
+ * Issues signed coupons and evaluates them against cart line items. The
+ * discounts a coupon produces carry the coupon token, so a verifier can
+ * re-evaluate them from the signed cart alone.
+ */
+export default class PromotionEngine {
+  private readonly signer: JsonSignature;
+
+  constructor(signer: JsonSignature) {
+    this.signer = signer;
+  }
+
+  public async issueCoupon(
+    key: string,
+    request: CouponRequest
+  ): Promise<SignedObject> {
+    if (typeof request.code !== 'string' || request.code.length === 0) {
+      throw new Error('Coupon code must be a non-empty string');
+    }
+    validateRule(request.rule);
+    if (request.rule.kind === 'fixed' || request.minSpend !== undefined) {
+      if (!request.currency) {
+        throw new Error(`Coupon ${request.code} needs a currency`);
+      }
+    }
+    if (request.currency !== undefined) {
+      getCurrencyExponent(request.currency);
+    }
+    const maxRedemptions = request.maxRedemptions ?? 1;
+    if (
+      (maxRedemptions !== 'unlimited' && !isLimit(maxRedemptions)) ||
+      (request.perCustomer !== undefined && !isLimit(request.perCustomer))
+    ) {
+      throw new Error('Coupon redemption limits must be positive integers');
+    }
+    const validFrom = request.validFrom ?? Date.now();
+    const validUntil = request.validUntil ?? validFrom + DEFAULT_VALIDITY;
+    if (validUntil <= validFrom) {
+      throw new Error('Coupon validUntil must be after validFrom');
+    }
+    const claims: CouponClaims = {
+      ...request,
+      type: COUPON_TYPE,
+      jti: uuidv4(),
+      stacking: request.stacking || 'exclusive',
+      maxRedemptions:
+        maxRedemptions === 'unlimited' ? undefined : maxRedemptions,
+      validFrom,
+      validUntil,
+    };
+    if (claims.maxRedemptions === undefined) {
+      delete claims.maxRedemptions;
+    }
+    return await this.signer.sign(
+      key,
+      claims as unknown as Record<string, unknown>
+    );
+  }
+
+  /**
+   * Verify the signature, issuer key and validity window of a coupon
+   */
+  public async verifyCoupon(
+    coupon: SignedObject,
+    trustedKeys: string[],
+    now = Date.now()
+  ): Promise<CouponCheck> {
+    return await verifyTrustedToken<CouponClaims>(
+      this.signer,
+      coupon,
+      trustedKeys,
+      { type: COUPON_TYPE, name: 'Coupon', typeError: 'Not a coupon', now }
+    );
+  }
+
+  /**
+   * Evaluate verified coupons, in order, against line items. Coupons that
+   * do not apply are reported in rejected instead of producing a discount.
+   */
+  public evaluate(
+    items: CartLineItem[],
+    coupons: EvaluatedCoupon[],
+    currency: string,
+    rounding: RoundingMode = 'half-even'
+  ): PromotionResult {
+    const result: PromotionResult = {
+      discounts: [],
+      rejected: [],
+      freeShipping: false,
+    };
+    const subtotal = items.reduce(
+      (sum, item) => sum + item.unitPrice * item.quantity,
+      0
+    );
+    const seen = new Set<string>();
+    let exclusive = false;
+    for (const { claims, token } of coupons) {
+      const reject = (error: string) =>
+        result.rejected.push({ code: claims.code, error });
+      if (seen.has(claims.code)) {
+        reject(`Coupon ${claims.code} is already applied`);
+        continue;
+      }
+      if (
+        exclusive ||
+        (claims.stacking === 'exclusive' && result.discounts.length > 0)
+      ) {
+        reject(`Coupon ${claims.code} cannot be combined with other coupons`);
+        continue;
+      }
+      if (
+        claims.currency !== undefined &&
+        claims.currency !== currency &&
+        (claims.rule.kind === 'fixed' || claims.minSpend !== undefined)
+      ) {
+        reject(`Coupon ${claims.code} is for ${claims.currency}`);
+        continue;
+      }
+      if (claims.minSpend !== undefined && subtotal < claims.minSpend) {
+        reject(
+          `Coupon ${claims.code} needs a subtotal of at least ${claims.minSpend}`
+        );
+        continue;
+      }
+      const scoped = items.filter(
+        item =>
+          (!claims.skus || claims.skus.includes(item.sku)) &&
+          (!claims.categories ||
+            (item.category !== undefined &&
+              claims.categories.includes(item.category)))
+      );
+      const scopeSet = !!(claims.skus || claims.categories);
+      if (scopeSet && scoped.length === 0) {
+        reject(`Coupon ${claims.code} does not apply to any item`);
+        continue;
+      }
+      const discount: CartDiscount = { id: couponDiscountId(claims.code) };
+      if (claims.description !== undefined) {
+        discount.description = claims.description;
+      }
+      const rule = claims.rule;
+      switch (rule.kind) {
+        case 'percent':
+          discount.rate = rule.rate;
+          break;
+        case 'fixed':
+          discount.amount = rule.amount;
+          break;
+        case 'buy-x-get-y': {
+          const units = scoped
+            .flatMap(item => Array<number>(item.quantity).fill(item.unitPrice))
+            .sort((a, b) => a - b);
+          const free =
+            Math.floor(units.length / (rule.buy + rule.get)) * rule.get;
+          const amount = units
+            .slice(0, free)
+            .reduce(
+              (sum, price) =>
+                sum + multiplyByRate(price, rule.rate || '1', rounding),
+              0
+            );
+          if (amount === 0) {
+            reject(
+              `Coupon ${claims.code} needs ${
+                rule.buy + rule.get
+              } eligible items`
+            );
+            continue;
+          }
+          discount.amount = amount;
+          break;
+        }
+        default:
+          discount.rate = '1';
+          discount.shipping = true;
+          result.freeShipping = true;
+      }
+      if (scopeSet) {
+        discount.skus = Array.from(new Set(scoped.map(item => item.sku)));
+      }
+      if (token) {
+        discount.coupon = token;
+      }
+      seen.add(claims.code);
+      exclusive = claims.stacking === 'exclusive';
+      result.discounts.push(discount);
+    }
+    return result;
+  }
+
+  /**
+   * Verify coupon tokens and evaluate them against line items
+   */
+  public async applyCoupons(
+    items: CartLineItem[],
+    tokens: SignedObject[],
+    currency: string,
+    options: CouponVerifyOptions,
+    rounding?: RoundingMode
+  ): Promise<PromotionResult> {
+    const coupons: EvaluatedCoupon[] = [];
+    const rejected: RejectedCoupon[] = [];
+    for (const token of tokens) {
+      const check = await this.verifyCoupon(
+        token,
+        options.trustedKeys,
+        options.now
+      );
+      if (check.valid && check.claims && options.ledger) {
+        const claims = check.claims;
+        const redeemed = checkRedemptionLimits(
+          await options.ledger.getRedemptions(redemptionId(claims)),
+          redemptionLimits(claims),
+          claims.code,
+          options.customerId
+        );
+        if (!redeemed.valid) {
+          rejected.push({ code: claims.code, error: String(redeemed.error) });
+          continue;
+        }
+      }
+      if (check.valid && check.claims) {
+        coupons.push({ claims: check.claims, token });
+      } else {
+        rejected.push({
+          code: check.claims?.code,
+          error: String(check.error),
+        });
+      }
+    }
+    const result = this.evaluate(items, coupons, currency, rounding);
+    result.rejected.unshift(...rejected);
+    return result;
+  }
+
+  /**
+   * Re-evaluate the coupon discounts embedded in a verified cart payload.
+   * Fails when a coupon is invalid or no longer produces the discount the
+   * cart carries.
+   */
+  public async verifyCartPromotions(
+    payload: CartPayload,
+    options: CouponVerifyOptions
+  ): Promise<PromotionCheck> {
+    const embedded = payload.discounts.filter(
+      discount =>
+        discount.coupon !== undefined ||
+        discount.id.startsWith(COUPON_DISCOUNT_PREFIX)
+    );
+    const errors: string[] = [];
+    const tokens: SignedObject[] = [];
+    for (const discount of embedded) {
+      if (!discount.coupon) {
+        errors.push(`Discount ${discount.id} has no coupon`);
+      } else {
+        tokens.push(discount.coupon);
+      }
+    }
+    const result = await this.applyCoupons(
+      payload.items,
+      tokens,
+      payload.currency,
+      options,
+      payload.rounding
+    );
+    for (const rejected of result.rejected) {
+      errors.push(rejected.error);
+    }
+    if (
+      errors.length === 0 &&
+      stringify(result.discounts) !==
+        stringify(embedded.filter(discount => discount.coupon))
+    ) {
+      errors.push('Coupon discounts do not match the cart');
+    }
+    return { valid: errors.length === 0, errors, expected: result.discounts };
+  }
+
+  /**
+   * Record the redemption of every coupon in a verified cart payload, e.g.
+   * when the order is placed. Nothing is recorded if any coupon fails
+   * verification or is already used up.
+   */
+  public async redeemCartCoupons(
+    payload: CartPayload,
+    options: CouponVerifyOptions & { ledger: RedemptionLedger }
+  ): Promise<RedemptionResult> {
+    const check = await this.verifyCartPromotions(payload, options);
+    if (!check.valid) {
+      return { valid: false, errors: check.errors, redemptions: [] };
+    }
+    const requests: RedemptionRequest[] = [];
+    const redeemedAt = options.now ?? Date.now();
+    for (const discount of check.expected) {
+      const claims = (discount.coupon as SignedObject)
+        .payload as unknown as CouponClaims;
+      const redemption: Redemption = {
+        jti: redemptionId(claims),
+        code: claims.code,
+        cartId: payload.cartId,
+        redeemedAt,
+      };
+      if (options.customerId !== undefined) {
+        redemption.customerId = options.customerId;
+      }
+      requests.push({ redemption, limits: redemptionLimits(claims) });
+    }
+    const errors = (await options.ledger.redeemAll(requests))
+      .filter(result => !result.valid)
+      .map(result => String(result.error));
+    return {
+      valid: errors.length === 0,
+      errors,
+      redemptions:
+        errors.length === 0 ? requests.map(request => request.redemption) : [],
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+
+/**
+ * One use of a coupon. jti identifies the coupon token.
+ */
+export interface Redemption {
+  jti: string;
+  code: string;
+  customerId?: string;
+  cartId?: string;
+  redeemedAt: number;
+}
+
+export interface RedemptionLimits {
+  /** Total uses allowed, unlimited when unset */
+  maxRedemptions?: number;
+  /** Uses allowed per customer, unlimited when unset */
+  perCustomer?: number;
+}
+
+export interface RedemptionCheck {
+  valid: boolean;
+  error?: string;
+}
+
+export interface RedemptionRequest {
+  redemption: Redemption;
+  limits: RedemptionLimits;
+}
+
+/**
+ * Records coupon redemptions so signed coupons cannot be replayed.
+ * redeem must check the limits and record the redemption atomically;
+ * redeemAll records all of its redemptions or, if any fails, none.
+ */
+export interface RedemptionLedger {
+  getRedemptions(jti: string): Promise<Redemption[]>;
+  redeem(
+    redemption: Redemption,
+    limits: RedemptionLimits
+  ): Promise<RedemptionCheck>;
+  /** One check per request, in order */
+  redeemAll(requests: RedemptionRequest[]): Promise<RedemptionCheck[]>;
+}
+
+/**
+ * Check whether one more redemption by customerId stays within the limits
+ */
+export function checkRedemptionLimits(
+  existing: Redemption[],
+  limits: RedemptionLimits,
+  code: string,
+  customerId?: string
+): RedemptionCheck {
+  if (
+    limits.maxRedemptions !== undefined &&
+    existing.length >= limits.maxRedemptions
+  ) {
+    return {
+      valid: false,
+      error:
+        limits.maxRedemptions === 1
+          ? `Coupon ${code} has already been redeemed`
+          : `Coupon ${code} has reached its redemption limit`,
+    };
+  }
+  if (limits.perCustomer !== undefined) {
+    if (!customerId) {
+      return { valid: false, error: `Coupon ${code} requires a customer` };
+    }
+    const used = existing.filter(
+      redemption => redemption.customerId === customerId
+    ).length;
+    if (used >= limits.perCustomer) {
+      return {
+        valid: false,
+        error: `Coupon ${code} has reached its limit for customer ${customerId}`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Check a batch of redemptions against the recorded ones, counting the
+ * earlier requests of the batch. Returns the checks and, when all pass, the
+ * redemptions of each jti after recording the batch.
+ */
+export function checkRedemptionBatch(
+  requests: RedemptionRequest[],
+  existing: (jti: string) => Redemption[]
+): { checks: RedemptionCheck[]; recorded?: Map<string, Redemption[]> } {
+  const recorded = new Map<string, Redemption[]>();
+  const checks = requests.map(({ redemption, limits }) => {
+    const previous = recorded.get(redemption.jti) || existing(redemption.jti);
+    const check = checkRedemptionLimits(
+      previous,
+      limits,
+      redemption.code,
+      redemption.customerId
+    );
+    if (check.valid) {
+      recorded.set(redemption.jti, [...previous, { ...redemption }]);
+    }
+    return check;
+  });
+  return checks.every(check => check.valid) ? { checks, recorded } : { checks };
+}
+
+export class InMemoryRedemptionLedger implements RedemptionLedger {
+  private readonly redemptions = new Map<string, Redemption[]>();
+
+  public getRedemptions(jti: string): Promise<Redemption[]> {
+    return Promise.resolve([...(this.redemptions.get(jti) || [])]);
+  }
+
+  public async redeem(
+    redemption: Redemption,
+    limits: RedemptionLimits
+  ): Promise<RedemptionCheck> {
+    return (await this.redeemAll([{ redemption, limits }]))[0];
+  }
+
+  public redeemAll(requests: RedemptionRequest[]): Promise<RedemptionCheck[]> {
+    const { checks, recorded } = checkRedemptionBatch(
+      requests,
+      jti => this.redemptions.get(jti) || []
+    );
+    for (const [jti, redemptions] of recorded || []) {
+      this.redemptions.set(jti, redemptions);
+    }
+    return Promise.resolve(checks);
+  }
+}
+
+/**
+ * Ledger kept in a JSON file, keyed by jti. Writes go through a temporary
+ * file and are serialized within the process; use one ledger instance per
+ * file.
+ */
+export class FileRedemptionLedger implements RedemptionLedger {
+  private readonly path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public async getRedemptions(jti: string): Promise<Redemption[]> {
+    await this.queue;
+    return (await this.read())[jti] || [];
+  }
+
+  public async redeem(
+    redemption: Redemption,
+    limits: RedemptionLimits
+  ): Promise<RedemptionCheck> {
+    return (await this.redeemAll([{ redemption, limits }]))[0];
+  }
+
+  public redeemAll(requests: RedemptionRequest[]): Promise<RedemptionCheck[]> {
+    const result = this.queue.then(async () => {
+      const ledger = await this.read();
+      const { checks, recorded } = checkRedemptionBatch(
+        requests,
+        jti => ledger[jti] || []
+      );
+      if (recorded) {
+        for (const [jti, redemptions] of recorded) {
+          ledger[jti] = redemptions;
+        }
+        await this.write(ledger);
+      }
+      return checks;
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async read(): Promise<Record<string, Redemption[]>> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw e;
+    }
+    return JSON.parse(contents) as Record<string, Redemption[]>;
+  }
+
+  private async write(ledger: Record<string, Redemption[]>): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(ledger, null, 2), 'utf8');
+    await fs.rename(temporary, this.path);
+  }
+}
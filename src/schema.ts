@@ -0,0 +1,268 @@
+/**
+ * One problem found by a schema. path is empty for the value itself,
+ * otherwise like items[2].quantity
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * A declarative description of a JSON value, built with the schema
+ * builders below
+ */
+export interface Schema {
+  /** Whether an object property with this schema may be absent */
+  readonly optional: boolean;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+}
+
+export interface SchemaResult {
+  valid: boolean;
+  /** e.g. 'items[2].quantity must be a positive integer' */
+  errors: string[];
+}
+
+interface Described {
+  /** Replaces the generated description, e.g. 'a decimal string' */
+  description?: string;
+}
+
+function make(
+  check: (value: unknown, path: string, issues: SchemaIssue[]) => void,
+  optional = false
+): Schema {
+  return { optional, check };
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function must(issues: SchemaIssue[], path: string, description: string): void {
+  issues.push({ path, message: `must be ${description}` });
+}
+
+function describeInteger(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) {
+    return `an integer between ${min} and ${max}`;
+  }
+  if (min === 1) {
+    return 'a positive integer';
+  }
+  if (min === 0) {
+    return 'a non-negative integer';
+  }
+  if (min !== undefined) {
+    return `an integer of at least ${min}`;
+  }
+  return max !== undefined ? `an integer of at most ${max}` : 'an integer';
+}
+
+function string(
+  options: Described & { minLength?: number; pattern?: RegExp } = {}
+): Schema {
+  const description =
+    options.description ||
+    (options.minLength === 1 ? 'a non-empty string' : 'a string');
+  return make((value, path, issues) => {
+    if (
+      typeof value !== 'string' ||
+      (options.minLength !== undefined && value.length < options.minLength) ||
+      (options.pattern !== undefined && !options.pattern.test(value))
+    ) {
+      must(issues, path, description);
+    }
+  });
+}
+
+function integer(
+  options: Described & { min?: number; max?: number } = {}
+): Schema {
+  const description =
+    options.description || describeInteger(options.min, options.max);
+  return make((value, path, issues) => {
+    if (
+      typeof value !== 'number' ||
+      !Number.isSafeInteger(value) ||
+      (options.min !== undefined && value < options.min) ||
+      (options.max !== undefined && value > options.max)
+    ) {
+      must(issues, path, description);
+    }
+  });
+}
+
+function number(options: Described = {}): Schema {
+  return make((value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      must(issues, path, options.description || 'a finite number');
+    }
+  });
+}
+
+function boolean(): Schema {
+  return make((value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      must(issues, path, 'a boolean');
+    }
+  });
+}
+
+function literal(expected: string | number | boolean): Schema {
+  return make((value, path, issues) => {
+    if (value !== expected) {
+      must(issues, path, JSON.stringify(expected));
+    }
+  });
+}
+
+function oneOf(values: (string | number)[]): Schema {
+  return make((value, path, issues) => {
+    if (!values.includes(value as string | number)) {
+      must(issues, path, `one of ${values.join(', ')}`);
+    }
+  });
+}
+
+function array(items: Schema, options: { minItems?: number } = {}): Schema {
+  return make((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      must(issues, path, 'an array');
+      return;
+    }
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      issues.push({
+        path,
+        message: `must have at least ${options.minItems} items`,
+      });
+    }
+    value.forEach((item, index) =>
+      items.check(item, childPath(path, index), issues)
+    );
+  });
+}
+
+/**
+ * An object with known properties. Unknown properties are allowed unless
+ * additional is false.
+ */
+function object(
+  properties: Record<string, Schema>,
+  options: { additional?: boolean } = {}
+): Schema {
+  return make((value, path, issues) => {
+    if (!isPlainObject(value)) {
+      must(issues, path, 'an object');
+      return;
+    }
+    for (const [key, property] of Object.entries(properties)) {
+      const child = childPath(path, key);
+      if (value[key] === undefined) {
+        if (!property.optional) {
+          issues.push({ path: child, message: 'is required' });
+        }
+        continue;
+      }
+      property.check(value[key], child, issues);
+    }
+    if (options.additional === false) {
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) {
+          issues.push({
+            path: childPath(path, key),
+            message: 'is not allowed',
+          });
+        }
+      }
+    }
+  });
+}
+
+/**
+ * An object used as a map, every value matches values
+ */
+function record(values: Schema): Schema {
+  return make((value, path, issues) => {
+    if (!isPlainObject(value)) {
+      must(issues, path, 'an object');
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      values.check(entry, childPath(path, key), issues);
+    }
+  });
+}
+
+function optional(schema: Schema): Schema {
+  return make(
+    (value, path, issues) =>
+      value === undefined ? undefined : schema.check(value, path, issues),
+    true
+  );
+}
+
+function any(): Schema {
+  return make(() => undefined);
+}
+
+/**
+ * Schema builders, e.g.
+ * `schema.object({ sku: schema.string({ minLength: 1 }) })`
+ */
+export const schema = {
+  string,
+  integer,
+  number,
+  boolean,
+  literal,
+  oneOf,
+  array,
+  object,
+  record,
+  optional,
+  any,
+};
+
+function formatIssue(issue: SchemaIssue, label?: string): string {
+  const subject = [label, issue.path].filter(part => part).join(' ');
+  return `${subject || 'value'} ${issue.message}`;
+}
+
+/**
+ * Check value against schema. label prefixes the messages, e.g.
+ * 'Cart payload items[2].quantity must be a positive integer'
+ */
+export function validateSchema(
+  target: Schema,
+  value: unknown,
+  label?: string
+): SchemaResult {
+  const issues: SchemaIssue[] = [];
+  target.check(value, '', issues);
+  return {
+    valid: issues.length === 0,
+    errors: issues.map(issue => formatIssue(issue, label)),
+  };
+}
+
+/**
+ * Throw if value does not match schema, the message lists every problem
+ */
+export function assertSchema(
+  target: Schema,
+  value: unknown,
+  label?: string
+): void {
+  const result = validateSchema(target, value, label);
+  if (!result.valid) {
+    throw new Error(result.errors.join('; '));
+  }
+}
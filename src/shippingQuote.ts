@@ -0,0 +1,209 @@
+import stringify from 'fast-json-stable-stringify';
+import { v4 as uuidv4 } from 'uuid';
+import JsonSignature, { SignedObject } from './jsonSignature';
+import { verifyTrustedToken } from './trustedToken';
+import { hashSHA256 } from './cloudlessCrypto';
+import { CartPayload, hashCartPayload } from './cloudlessCart';
+import { getCurrencyExponent, isMinorUnits } from './money';
+
+export const SHIPPING_QUOTE_TYPE = 'shipping-quote';
+
+/**
+ * Claims signed by the merchant (or carrier service). Times are
+ * milliseconds since the epoch, price is in minor units of currency.
+ */
+export interface ShippingQuoteClaims {
+  type: typeof SHIPPING_QUOTE_TYPE;
+  quoteId: string;
+  cartId: string;
+  /** Signed cart revision the quote was made for */
+  revision: number;
+  /** hashCartPayload of that revision */
+  cartHash: string;
+  /** shippingContentHash of that revision, the lines being shipped */
+  contentHash: string;
+  carrier: string;
+  /** Service level, e.g. 'ground' or 'overnight' */
+  service: string;
+  price: number;
+  currency: string;
+  validFrom: number;
+  validUntil: number;
+}
+
+export interface ShippingQuoteRequest {
+  carrier: string;
+  service: string;
+  price: number;
+  /** Defaults to now */
+  validFrom?: number;
+  /** Defaults to validFrom + 30 minutes */
+  validUntil?: number;
+}
+
+export interface ShippingQuoteCheck {
+  valid: boolean;
+  error?: string;
+  /** True when the quote is authentic but its validity window has passed */
+  expired?: boolean;
+  /** True when the quote is authentic but for an older revision of the cart */
+  stale?: boolean;
+  claims?: ShippingQuoteClaims;
+}
+
+export interface ShippingVerifyOptions {
+  /** kids of keys whose quotes are accepted */
+  trustedKeys: string[];
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+}
+
+const DEFAULT_VALIDITY = 30 * 60 * 1000;
+
+/**
+ * SHA-256 of what determines the shipping cost: the cart and the quantity
+ * of each line. Prices, discounts and tax may change without a requote.
+ */
+export async function shippingContentHash(
+  payload: Pick<CartPayload, 'cartId' | 'currency' | 'items'>
+): Promise<string> {
+  return await hashSHA256(
+    stringify({
+      cartId: payload.cartId,
+      currency: payload.currency,
+      items: payload.items.map(item => ({
+        sku: item.sku,
+        options: item.options,
+        quantity: item.quantity,
+      })),
+    })
+  );
+}
+
+/**
+ * Issues signed shipping quotes bound to a signed cart revision and checks
+ * the quotes embedded in cart payloads
+ */
+export default class ShippingQuoter {
+  private readonly signer: JsonSignature;
+
+  constructor(signer: JsonSignature) {
+    this.signer = signer;
+  }
+
+  /**
+   * Quote shipping for a signed cart payload, e.g. the payload of the
+   * cart's current revision
+   */
+  public async issueQuote(
+    key: string,
+    payload: CartPayload,
+    request: ShippingQuoteRequest
+  ): Promise<SignedObject> {
+    if (typeof request.carrier !== 'string' || request.carrier.length === 0) {
+      throw new Error('Shipping carrier must be a non-empty string');
+    }
+    if (typeof request.service !== 'string' || request.service.length === 0) {
+      throw new Error('Shipping service must be a non-empty string');
+    }
+    if (!isMinorUnits(request.price) || request.price < 0) {
+      throw new Error('Shipping price must be a non-negative integer');
+    }
+    getCurrencyExponent(payload.currency);
+    const validFrom = request.validFrom ?? Date.now();
+    const validUntil = request.validUntil ?? validFrom + DEFAULT_VALIDITY;
+    if (validUntil <= validFrom) {
+      throw new Error('Shipping quote validUntil must be after validFrom');
+    }
+    const claims: ShippingQuoteClaims = {
+      type: SHIPPING_QUOTE_TYPE,
+      quoteId: uuidv4(),
+      cartId: payload.cartId,
+      revision: payload.revision,
+      cartHash: await hashCartPayload(payload),
+      contentHash: await shippingContentHash(payload),
+      carrier: request.carrier,
+      service: request.service,
+      price: request.price,
+      currency: payload.currency,
+      validFrom,
+      validUntil,
+    };
+    return await this.signer.sign(
+      key,
+      claims as unknown as Record<string, unknown>
+    );
+  }
+
+  /**
+   * Verify the signature, issuer key and validity window of a quote
+   */
+  public async verifyQuote(
+    quote: SignedObject,
+    trustedKeys: string[],
+    now = Date.now()
+  ): Promise<ShippingQuoteCheck> {
+    return await verifyTrustedToken<ShippingQuoteClaims>(
+      this.signer,
+      quote,
+      trustedKeys,
+      {
+        type: SHIPPING_QUOTE_TYPE,
+        name: 'Shipping quote',
+        typeError: 'Not a shipping quote',
+        now,
+      }
+    );
+  }
+
+  /**
+   * Check the quote embedded in a verified cart payload. The quote must be
+   * for the revision the payload directly follows, i.e. its previousHash
+   * must be the quoted hash, and the lines must be the quoted ones. Quotes
+   * for older revisions are stale, the cart needs a new quote.
+   */
+  public async verifyCartShipping(
+    payload: CartPayload,
+    options: ShippingVerifyOptions
+  ): Promise<ShippingQuoteCheck> {
+    if (!payload.shippingQuote) {
+      return { valid: false, error: 'Cart has no shipping quote' };
+    }
+    const check = await this.verifyQuote(
+      payload.shippingQuote,
+      options.trustedKeys,
+      options.now
+    );
+    if (!check.valid || !check.claims) {
+      return check;
+    }
+    const claims = check.claims;
+    const invalid = (error: string) => ({ valid: false, error, claims });
+    if (claims.cartId !== payload.cartId) {
+      return invalid('Shipping quote is for another cart');
+    }
+    if (claims.currency !== payload.currency) {
+      return invalid(`Shipping quote is for ${claims.currency}`);
+    }
+    if (claims.revision < payload.revision - 1) {
+      return {
+        ...invalid(
+          `Shipping quote for revision ${claims.revision} is stale at revision ${payload.revision}`
+        ),
+        stale: true,
+      };
+    }
+    if (
+      claims.revision !== payload.revision - 1 ||
+      claims.cartHash !== payload.previousHash
+    ) {
+      return invalid(
+        `Shipping quote for revision ${claims.revision} does not precede revision ${payload.revision}`
+      );
+    }
+    if (claims.contentHash !== (await shippingContentHash(payload))) {
+      return invalid('Cart lines changed since the shipping quote');
+    }
+    return check;
+  }
+}
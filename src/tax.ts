@@ -0,0 +1,170 @@
+import { CartItemOptions, lineItemKey } from './cartItem';
+import { CartTotals, LineTotal } from './cartTotals';
+import { parseDecimal, RoundingMode } from './money';
+
+/**
+ * A discounted line as seen by a tax calculator
+ */
+export interface TaxableLine {
+  sku: string;
+  options?: CartItemOptions;
+  category?: string;
+  quantity: number;
+  unitPrice: number;
+  /** Line value after discounts in minor units */
+  net: number;
+}
+
+export interface TaxContext {
+  currency: string;
+  rounding: RoundingMode;
+}
+
+export interface TaxRate {
+  /** e.g. 'US-CA state tax' */
+  name: string;
+  /** Decimal rate, e.g. '0.0725' */
+  rate: string;
+}
+
+/**
+ * The rates that apply to one line. Inclusive rates are already contained
+ * in the line price (VAT style), exclusive rates are added on top.
+ */
+export interface LineTaxRates {
+  inclusive: boolean;
+  rates: TaxRate[];
+}
+
+/**
+ * One tax applied to a line, recorded in the line totals
+ */
+export interface TaxComponent extends TaxRate {
+  amount: number;
+}
+
+/**
+ * Decides which rates apply to each line. calculateCartTotals turns the
+ * rates into amounts, so the recorded rates are enough to re-derive them.
+ */
+export interface TaxCalculator {
+  /** One entry per line, in line order */
+  getLineTaxes(lines: TaxableLine[], context: TaxContext): LineTaxRates[];
+}
+
+export interface TaxJurisdiction {
+  /** Hyphenated and hierarchical, 'US-CA' also applies the 'US' rates */
+  code: string;
+  /** Prices include this jurisdiction's tax, defaults to the parent's */
+  inclusive?: boolean;
+  rates: (TaxRate & { exemptCategories?: string[] })[];
+  /** Categories exempt from every rate of this jurisdiction */
+  exemptCategories?: string[];
+}
+
+export interface TaxTable {
+  jurisdictions: TaxJurisdiction[];
+}
+
+/**
+ * Built-in calculator driven by a table of jurisdictions. A cart in
+ * jurisdiction 'US-CA-SF' pays the rates of 'US', 'US-CA' and 'US-CA-SF'
+ * unless its category is exempt.
+ */
+export default class TableTaxCalculator implements TaxCalculator {
+  private readonly applicable: TaxJurisdiction[];
+  private readonly inclusive: boolean;
+
+  constructor(table: TaxTable, jurisdiction: string) {
+    for (const entry of table.jurisdictions) {
+      for (const rate of entry.rates) {
+        if (parseDecimal(rate.rate).value < 0) {
+          throw new Error(`Tax rate ${rate.name} must not be negative`);
+        }
+      }
+    }
+    this.applicable = table.jurisdictions
+      .filter(
+        entry =>
+          jurisdiction === entry.code ||
+          jurisdiction.startsWith(`${entry.code}-`)
+      )
+      .sort((a, b) => a.code.length - b.code.length);
+    if (!this.applicable.some(entry => entry.code === jurisdiction)) {
+      throw new Error(`Unknown tax jurisdiction ${jurisdiction}`);
+    }
+    this.inclusive = this.applicable.reduce(
+      (inclusive, entry) => entry.inclusive ?? inclusive,
+      false
+    );
+  }
+
+  public getLineTaxes(lines: TaxableLine[]): LineTaxRates[] {
+    return lines.map(line => {
+      const rates: TaxRate[] = [];
+      const exempt = (categories?: string[]) =>
+        line.category !== undefined && !!categories?.includes(line.category);
+      for (const entry of this.applicable) {
+        if (exempt(entry.exemptCategories)) {
+          continue;
+        }
+        for (const rate of entry.rates) {
+          if (!exempt(rate.exemptCategories)) {
+            rates.push({ name: rate.name, rate: rate.rate });
+          }
+        }
+      }
+      return { inclusive: this.inclusive, rates };
+    });
+  }
+}
+
+export interface RecordedTaxOptions {
+  /** Throw for lines that were not recorded instead of not taxing them */
+  strict?: boolean;
+}
+
+/**
+ * Replays the tax rates recorded in signed totals, so a verifier can
+ * re-derive the tax amounts without the merchant's calculator. Lines that
+ * were not recorded are not taxed, unless strict.
+ */
+export class RecordedTaxCalculator implements TaxCalculator {
+  private readonly recorded: Map<string, LineTaxRates>;
+  private readonly strict: boolean;
+
+  constructor(totals: CartTotals, options: RecordedTaxOptions = {}) {
+    this.strict = options.strict === true;
+    this.recorded = new Map(
+      totals.lines.map(line => [
+        lineItemKey(line.sku, line.options),
+        {
+          inclusive: line.taxInclusive === true,
+          rates: (line.taxes || []).map(tax => ({
+            name: tax.name,
+            rate: tax.rate,
+          })),
+        },
+      ])
+    );
+  }
+
+  public getLineTaxes(lines: TaxableLine[]): LineTaxRates[] {
+    return lines.map(line => {
+      const recorded = this.recorded.get(lineItemKey(line.sku, line.options));
+      if (!recorded && this.strict) {
+        throw new Error(
+          `No tax rates recorded for line item ${line.sku}, restore the cart with a taxCalculator`
+        );
+      }
+      return recorded || { inclusive: false, rates: [] };
+    });
+  }
+}
+
+/**
+ * True when the totals carry a line level tax breakdown
+ */
+export function hasTaxBreakdown(totals: { lines: LineTotal[] }): boolean {
+  return totals.lines.some(line => line.taxes !== undefined);
+}
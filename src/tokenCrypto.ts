@@ -1,7 +1,20 @@
 import * as jose from 'jose';
 import { JWK, KeyLike, JWTPayload } from 'jose';
 import { v4 as uuidv4 } from 'uuid';
-import { KeyStore, KeyPair } from './jsonSignature';
+import {
+  ExportedKeyPair,
+  KeyResolver,
+  KeyStore,
+  KeyPair,
+  listKeys,
+} from './jsonSignature';
+import {
+  PassphraseOptions,
+  protectKeyPair,
+  ProtectedKeyPair,
+  unprotectKeyPair,
+} from './keyBundle';
+import { assertKeyUsable, keyRejection } from './keyState';
 import { 
   compress as compressData, 
   decompress as decompressData,
@@ -15,6 +28,22 @@ export interface EncryptionOptions {
   compress?: boolean | CompressionMethod;  // Can be boolean, 'brotli', 'gzip', or 'none'
 }
 
+/** JWT claims encryptToken may add to a payload */
+export const JWT_CLAIMS = ['iat', 'exp', 'aud', 'iss', 'jti', 'nbf', 'sub'];
+
+/**
+ * Copy of a decrypted payload without the JWT claims
+ */
+export function stripJwtClaims(
+  payload: Record<string, unknown>
+): Record<string, unknown> {
+  const stripped = { ...payload };
+  for (const claim of JWT_CLAIMS) {
+    delete stripped[claim];
+  }
+  return stripped;
+}
+
 /**
  * Compression header implementation
  * 
@@ -31,6 +60,7 @@ export interface EncryptionOptions {
 
 export default class TokenCrypto {
   private readonly _keys: KeyStore;
+  private resolver?: KeyResolver;
   private debug = false;
 
   constructor(keyStore?: KeyStore, debug = false) {
@@ -43,6 +73,14 @@ export default class TokenCrypto {
     this._keys = keyStore || new Map<string, KeyPair>();
   }
 
+  /**
+   * Consult resolver for kids the store doesn't have when encrypting or
+   * decrypting. A JWKS only has public keys, so it helps encryptToken.
+   */
+  public setKeyResolver(resolver?: KeyResolver): void {
+    this.resolver = resolver;
+  }
+
   private log(message: string, ...optionalParams: any[]) {
     if (this.debug) {
       console.log(message, optionalParams);
@@ -55,10 +93,11 @@ export default class TokenCrypto {
     const keyPair = await jose.generateKeyPair(alg, { extractable: true });
     const key = uuidv4();
 
-    this._keys.set(key, {
+    await this._keys.set(key, {
       publicKey: keyPair.publicKey,
       privateKey: keyPair.privateKey,
       alg: alg,
+      use: 'enc',
     });
 
     const pubKey = await jose.exportJWK(keyPair.publicKey);
@@ -80,19 +119,33 @@ export default class TokenCrypto {
       publicKey: pubImp as KeyLike,
       privateKey: privImp as KeyLike,
       alg: alg,
+      use: 'enc',
     };
 
-    this._keys.set(key, pair);
+    await this._keys.set(key, pair);
     this.log('Imported encryption key pair with ID:', key);
   }
 
-  public async exportKeyPair(key: string): Promise<{
-    kid: string;
-    publicKey: JWK;
-    privateKey: JWK;
-    alg: string | undefined;
-  }> {
-    const value = this._keys.get(key);
+  /**
+   * Store only the public half of someone else's encryption key, enough to
+   * encrypt tokens they can decrypt
+   */
+  public async importPublicKeyForEncryption(
+    key: string,
+    pub: JWK,
+    alg = 'RSA-OAEP-256'
+  ): Promise<void> {
+    const pubImp = await jose.importJWK(pub, alg);
+    await this._keys.set(key, {
+      publicKey: pubImp as KeyLike,
+      alg: alg,
+      use: 'enc',
+    });
+    this.log('Imported public encryption key with ID:', key);
+  }
+
+  public async exportKeyPair(key: string): Promise<ExportedKeyPair> {
+    const value = await this._keys.get(key);
     if (!value?.publicKey || !value?.privateKey) {
       throw new Error('Not a valid key pair');
     }
@@ -103,15 +156,45 @@ export default class TokenCrypto {
     return { kid: key, publicKey: pub, privateKey: priv, alg: value.alg };
   }
 
+  /**
+   * Export a key pair with the private key wrapped by a passphrase, see
+   * importProtectedKeyPairForEncryption
+   */
+  public async exportProtectedKeyPair(
+    key: string,
+    passphrase: string,
+    options?: PassphraseOptions
+  ): Promise<ProtectedKeyPair> {
+    return await protectKeyPair(
+      await this.exportKeyPair(key),
+      passphrase,
+      options
+    );
+  }
+
+  public async importProtectedKeyPairForEncryption(
+    exported: ProtectedKeyPair,
+    passphrase: string
+  ): Promise<void> {
+    const pair = await unprotectKeyPair(exported, passphrase);
+    await this.importKeyPairForEncryption(
+      pair.kid,
+      pair.publicKey,
+      pair.privateKey,
+      pair.alg
+    );
+  }
+
   public async encryptToken(
     keyId: string,
     payload: JWTPayload,
     options: EncryptionOptions = {}
   ): Promise<string> {
-    const keyPair = this._keys.get(keyId);
+    const keyPair = await this.findKey(keyId);
     if (!keyPair?.publicKey) {
       throw new Error(`Encryption key ${keyId} not found`);
     }
+    assertKeyUsable(keyId, keyPair);
 
     const start = performance.now();
     this.log('Starting token encryption for key:', keyId);
@@ -220,10 +303,14 @@ export default class TokenCrypto {
     keyId: string,
     encryptedJWT: string
   ): Promise<Record<string, unknown>> {
-    const keyPair = this._keys.get(keyId);
+    const keyPair = await this.findKey(keyId);
     if (!keyPair?.privateKey) {
       throw new Error(`Decryption key ${keyId} not found`);
     }
+    const rejection = keyRejection(keyId, keyPair);
+    if (rejection) {
+      throw new Error(`Token decryption failed: ${rejection}`);
+    }
 
     const start = performance.now();
     this.log('Starting token decryption for key:', keyId);
@@ -309,13 +396,20 @@ export default class TokenCrypto {
     encryptedJWT: string
   ): Promise<Record<string, unknown>> {
     let lastError: Error | null = null;
-    const keyEntries =
-      this._keys instanceof Map
-        ? Array.from(this._keys.entries())
-        : Object.entries(this._keys as any);
 
-    for (const [keyId, keyPair] of keyEntries) {
-      if (!keyPair || !(keyPair as KeyPair).privateKey) continue;
+    // Use the key the token names, try every key only if it is missing
+    let kid: string | undefined;
+    try {
+      kid = jose.decodeProtectedHeader(encryptedJWT).kid;
+    } catch (error) {
+      kid = undefined;
+    }
+    if (kid && (await this._keys.get(kid))?.privateKey) {
+      return await this.decryptToken(kid, encryptedJWT);
+    }
+    for (const keyId of await listKeys(this._keys)) {
+      const keyPair: KeyPair | undefined = await this._keys.get(keyId);
+      if (!keyPair?.privateKey) continue;
 
       try {
         return await this.decryptToken(keyId, encryptedJWT);
@@ -333,16 +427,20 @@ export default class TokenCrypto {
     );
   }
 
-  public getAvailableKeys(): string[] {
-    const keys =
-      this._keys instanceof Map
-        ? Array.from(this._keys.keys())
-        : Object.keys(this._keys as Record<string, unknown>);
-    return keys as string[];
+  public async getAvailableKeys(): Promise<string[]> {
+    return await listKeys(this._keys);
   }
 
-  public hasKey(keyId: string): boolean {
-    return this._keys.get(keyId) !== undefined;
+  public async hasKey(keyId: string): Promise<boolean> {
+    return (await this._keys.get(keyId)) !== undefined;
+  }
+
+  private async findKey(keyId: string): Promise<KeyPair | undefined> {
+    const keyPair = await this._keys.get(keyId);
+    if (!keyPair && this.resolver) {
+      return await this.resolver(keyId);
+    }
+    return keyPair;
   }
 
   /**
@@ -0,0 +1,88 @@
+import * as jose from 'jose';
+import type JsonSignature from './jsonSignature';
+import { SignedObject } from './jsonSignature';
+
+export interface TrustedTokenOptions {
+  /** Expected payload type */
+  type: string;
+  /** Names the token in errors, e.g. 'Coupon' */
+  name: string;
+  /** Error for a payload of another type, e.g. 'Not a coupon' */
+  typeError: string;
+  /** Verification time, defaults to Date.now() */
+  now?: number;
+  /** Trusted kids that keep verifying once KeyRotation archived them */
+  archivedKeys?: string[];
+}
+
+export interface TrustedTokenCheck<T> {
+  valid: boolean;
+  error?: string;
+  /** True when the token is authentic but its validity window has passed */
+  expired?: boolean;
+  /** kid of the key that signed the token */
+  kid?: string;
+  claims?: T;
+}
+
+/**
+ * Verify a token signed by one of the trusted keys: the kid in its header
+ * must be trusted, the signature valid and the payload of the expected
+ * type. Payloads with validFrom, validUntil or expiresAt (ms since the
+ * epoch) must be valid at now.
+ */
+export async function verifyTrustedToken<T>(
+  signer: JsonSignature,
+  signed: SignedObject,
+  trustedKeys: string[],
+  options: TrustedTokenOptions
+): Promise<TrustedTokenCheck<T>> {
+  let kid: string | undefined;
+  try {
+    kid = jose.decodeProtectedHeader({
+      protected: signed.protected,
+      signature: signed.signature,
+    }).kid;
+  } catch (e) {
+    return { valid: false, error: (e as Error).message };
+  }
+  if (!kid || !trustedKeys.includes(kid)) {
+    return {
+      valid: false,
+      error: `${options.name} key ${String(kid)} is not trusted`,
+    };
+  }
+  const verified = await signer.verify(signed, kid, {
+    archived: (options.archivedKeys || []).includes(kid),
+  });
+  if (verified.error) {
+    return { valid: false, error: String(verified.error) };
+  }
+  if (verified.type !== options.type) {
+    return { valid: false, error: options.typeError };
+  }
+  const claims = verified as unknown as T;
+  const { validFrom, validUntil, expiresAt } = verified;
+  const now = options.now ?? Date.now();
+  if (typeof validFrom === 'number' && now < validFrom) {
+    return {
+      valid: false,
+      error: `${options.name} is not yet valid`,
+      kid,
+      claims,
+    };
+  }
+  if (
+    (typeof validUntil === 'number' && now > validUntil) ||
+    (typeof expiresAt === 'number' && now > expiresAt)
+  ) {
+    return {
+      valid: false,
+      error: `${options.name} has expired`,
+      expired: true,
+      kid,
+      claims,
+    };
+  }
+  return { valid: true, kid, claims };
+}
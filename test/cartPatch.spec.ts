@@ -0,0 +1,128 @@
+import { applyJsonPatch, diffJson } from '../src/cartPatch';
+import CloudlessCart, { CartSigningConfig } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+
+describe('cart patches', () => {
+  describe('diffJson', () => {
+    const base = {
+      items: [
+        { sku: 'pen', quantity: 1, unitPrice: 299 },
+        { sku: 'mug', quantity: 1, unitPrice: 899 },
+        { sku: 'cap', quantity: 1, unitPrice: 1500 },
+      ],
+      discounts: [{ id: 'welcome', amount: 100 }],
+      taxRate: '0.08',
+    };
+
+    it('should only touch changed lines', () => {
+      const target = {
+        items: [
+          { sku: 'pen', quantity: 1, unitPrice: 299 },
+          { sku: 'cap', quantity: 4, unitPrice: 1500 },
+          { sku: 'hat', quantity: 1, unitPrice: 2000 },
+        ],
+        discounts: [{ id: 'welcome', amount: 100 }],
+      };
+      const ops = diffJson(base, target);
+      expect(ops).toEqual([
+        { op: 'remove', path: '/taxRate' },
+        { op: 'remove', path: '/items/1' },
+        { op: 'replace', path: '/items/1/quantity', value: 4 },
+        { op: 'add', path: '/items/-', value: { sku: 'hat', quantity: 1, unitPrice: 2000 } },
+      ]);
+      expect(applyJsonPatch(base, ops)).toEqual(target);
+    });
+
+    it('should replace reordered arrays', () => {
+      const target = { ...base, items: [...base.items].reverse() };
+      const ops = diffJson(base, target);
+      expect(ops).toEqual([{ op: 'replace', path: '/items', value: target.items }]);
+      expect(applyJsonPatch(base, ops)).toEqual(target);
+    });
+
+    it('should escape keys and refuse bad paths', () => {
+      const ops = diffJson({ lines: {} }, { lines: { 'a/b~c': 1 } });
+      expect(ops).toEqual([{ op: 'add', path: '/lines/a~1b~0c', value: 1 }]);
+      expect(applyJsonPatch({ lines: {} }, ops)).toEqual({ lines: { 'a/b~c': 1 } });
+      expect(() => applyJsonPatch(base, [{ op: 'remove', path: '/items/7' }])).toThrow(
+        'does not exist'
+      );
+      expect(() =>
+        applyJsonPatch(base, [{ op: 'add', path: '/__proto__/polluted', value: 1 }])
+      ).toThrow('Invalid cart patch operation');
+    });
+  });
+
+  describe('patch tokens', () => {
+    let crypto: CloudlessCrypto;
+    let config: CartSigningConfig;
+    let cart: CloudlessCart;
+
+    beforeEach(async () => {
+      crypto = new CloudlessCrypto();
+      config = {
+        crypto,
+        signingKey: (await crypto.generateSigningKeyPair()).key,
+        encryptionKey: (await crypto.generateEncryptionKeyPair()).key,
+      };
+      cart = new CloudlessCart({ taxRate: '0.08', signing: config });
+      for (let index = 0; index < 20; index++) {
+        cart.addItem({ sku: `sku-${index}`, unitPrice: 100 + index, name: `Item ${index}` });
+      }
+    });
+
+    it.each(['sign', 'sign-then-encrypt', 'encrypt-then-sign'] as const)(
+      'should apply a %s patch to the base revision',
+      async mode => {
+        cart.setSigning({ ...config, mode });
+        const base = await cart.signedCart();
+        cart.updateQuantity('sku-3', 5);
+        const patch = await cart.signedPatch();
+
+        const patched = await CloudlessCart.fromPatchToken(base, patch, config);
+        expect(patched.toPayload()).toEqual(cart.toPayload());
+        expect(patched.getRevision()).toBe(2);
+
+        cart.removeItem('sku-0');
+        const next = await cart.signedPatch();
+        const again = await patched.applyPatchToken(next);
+        expect(again.getItems()).toEqual(cart.getItems());
+        expect(again.getTotals()).toEqual(cart.getTotals());
+      }
+    );
+
+    it('should be much smaller than the full token', async () => {
+      await cart.signedCart();
+      cart.updateQuantity('sku-3', 5);
+      const patch = (await cart.signedPatch()) as SignedObject;
+      const full = (await cart.signedCart()) as SignedObject;
+      expect(JSON.stringify(patch).length).toBeLessThan(JSON.stringify(full).length / 2);
+    });
+
+    it('should refuse a patch for another revision', async () => {
+      const base = await cart.signedCart();
+      cart.updateQuantity('sku-3', 5);
+      await cart.signedPatch();
+      cart.updateQuantity('sku-4', 5);
+      const skipped = await cart.signedPatch();
+      await expect(CloudlessCart.fromPatchToken(base, skipped, config)).rejects.toThrow(
+        'Patch for revision 2 does not apply to revision 1'
+      );
+    });
+
+    it('should refuse a tampered patch', async () => {
+      const base = await cart.signedCart();
+      cart.updateQuantity('sku-3', 5);
+      const patch = (await cart.signedPatch()) as SignedObject;
+      (patch.payload.ops as { value: number }[])[0].value = 1;
+      await expect(CloudlessCart.fromPatchToken(base, patch, config)).rejects.toThrow(
+        'Cart verification failed'
+      );
+    });
+
+    it('should need a signed base revision', async () => {
+      await expect(cart.signedPatch()).rejects.toThrow('no signed revision');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import stringify from 'fast-json-stable-stringify';
+import CartReplica, { CartReplicaState } from '../src/cartReplica';
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+
+describe('CartReplica', () => {
+  const item = (sku: string, quantity: number, unitPrice = 100) => ({
+    sku,
+    quantity,
+    unitPrice,
+  });
+
+  describe('state', () => {
+    let laptop: CartReplica;
+    let phone: CartReplica;
+
+    beforeEach(() => {
+      laptop = new CartReplica('laptop');
+      laptop.update({ items: [item('pen', 1), item('mug', 1)], discounts: [] });
+      phone = new CartReplica('phone', laptop.getState());
+    });
+
+    it('should converge whatever the merge order', () => {
+      laptop.update({ items: [item('pen', 3), item('mug', 1)], discounts: [] });
+      phone.update({
+        items: [item('mug', 1), item('cap', 2)],
+        discounts: [{ id: 'promo', amount: 50 }],
+      });
+      const laptopState = laptop.getState();
+      laptop.merge(phone.getState());
+      phone.merge(laptopState);
+
+      expect(laptop.getView()).toEqual(phone.getView());
+      expect(laptop.getView()).toEqual({
+        items: [item('mug', 1), item('cap', 2)],
+        discounts: [{ id: 'promo', amount: 50 }],
+      });
+    });
+
+    it('should add concurrent quantity changes', () => {
+      laptop.update({ items: [item('pen', 3), item('mug', 1)], discounts: [] });
+      phone.update({ items: [item('pen', 2), item('mug', 1)], discounts: [] });
+      laptop.merge(phone.getState());
+      expect(laptop.getView().items[0]).toEqual(item('pen', 4));
+    });
+
+    it('should keep a line added concurrently with its removal', () => {
+      laptop.update({ items: [item('mug', 1)], discounts: [] });
+      phone.update({ items: [item('mug', 1)], discounts: [] });
+      phone.update({ items: [item('mug', 1), item('pen', 2)], discounts: [] });
+      laptop.merge(phone.getState());
+      expect(laptop.getView().items).toEqual([item('mug', 1), item('pen', 2)]);
+    });
+
+    it('should let the last write win for line data', () => {
+      phone.update({ items: [item('pen', 1, 90), item('mug', 1)], discounts: [] });
+      laptop.update({ items: [item('pen', 1, 80), item('mug', 1)], discounts: [] });
+      laptop.update({ items: [item('pen', 1, 70), item('mug', 1)], discounts: [] });
+      phone.merge(laptop.getState());
+      expect(phone.getView().items[0].unitPrice).toBe(70);
+    });
+
+    it('should be idempotent', () => {
+      phone.update({ items: [item('pen', 5)], discounts: [], taxRate: '0.1' });
+      laptop.merge(phone.getState());
+      const once = stringify(laptop.getState());
+      laptop.merge(phone.getState());
+      laptop.merge(laptop.getState());
+      expect(stringify(laptop.getState())).toBe(once);
+    });
+
+    it('should not keep tombstones for removed lines', () => {
+      for (let i = 0; i < 20; i++) {
+        laptop.update({ items: [item('mug', 1), item('cap', 1)], discounts: [] });
+        laptop.update({ items: [item('mug', 1)], discounts: [] });
+      }
+      const state = laptop.getState();
+      expect(state).not.toHaveProperty('removed');
+      expect(Object.keys(state.seen)).toEqual(['laptop']);
+      expect(Object.keys(state.lines)).toHaveLength(1);
+
+      // The phone still holds the pen and cap tags, the laptop has seen them
+      phone.merge(state);
+      laptop.merge(phone.getState());
+      expect(laptop.getView().items).toEqual([item('mug', 1)]);
+      expect(phone.getView()).toEqual(laptop.getView());
+    });
+
+    it('should read states that list removed tags', () => {
+      const { seen, ...state } = laptop.getState();
+      const legacy = { ...state, removed: ['laptop@9'] } as unknown as CartReplicaState;
+      expect(seen).toEqual({ laptop: 2 });
+      expect(new CartReplica('phone', legacy).getState().seen).toEqual({ laptop: 9 });
+    });
+
+    it('should reject malformed state', () => {
+      expect(() => laptop.merge({ ...laptop.getState(), clock: 1.5 })).toThrow(
+        'clock must be an integer'
+      );
+      expect(() => new CartReplica('')).toThrow('Replica id');
+      expect(() => laptop.merge({ ...laptop.getState(), seen: {} })).toThrow(
+        'seen does not cover tag laptop@1'
+      );
+    });
+  });
+
+  describe('CloudlessCart integration', () => {
+    let crypto: CloudlessCrypto;
+    let config: { crypto: CloudlessCrypto; signingKey: string };
+    let laptop: CloudlessCart;
+
+    beforeEach(async () => {
+      crypto = new CloudlessCrypto();
+      config = { crypto, signingKey: (await crypto.generateSigningKeyPair()).key };
+      laptop = new CloudlessCart({ replicaId: 'laptop', signing: config });
+      laptop.addItem({ sku: 'pen', unitPrice: 299 });
+      laptop.addDiscount({ id: 'welcome', amount: 100 });
+    });
+
+    it('should merge replicas edited offline on two devices', async () => {
+      const shared = await laptop.signedCart();
+      const phone = await CloudlessCart.fromToken(shared, config, { replicaId: 'phone' });
+
+      laptop.updateQuantity('pen', 2);
+      laptop.removeDiscount('welcome');
+      phone.addItem({ sku: 'pen', unitPrice: 299 });
+      phone.addItem({ sku: 'mug', unitPrice: 899 });
+      const laptopToken = await laptop.signedCart();
+      const phoneToken = await phone.signedCart();
+
+      const first = await CloudlessCart.mergeReplicaTokens([laptopToken, phoneToken], config, {
+        replicaId: 'laptop',
+      });
+      const second = await CloudlessCart.mergeReplicaTokens([phoneToken, laptopToken], config);
+      expect(first.cart.getItems()).toEqual([
+        { sku: 'pen', unitPrice: 299, quantity: 3 },
+        { sku: 'mug', unitPrice: 899, quantity: 1 },
+      ]);
+      expect(first.cart.getDiscounts()).toEqual([]);
+      expect(second.cart.getItems()).toEqual(first.cart.getItems());
+      expect(second.cart.getTotals()).toEqual(first.cart.getTotals());
+      expect(first.cart.getRevision()).toBe(3);
+      expect(first.cart.getReplicaId()).toBe('laptop');
+
+      const verified = await first.cart.verifyCart(first.token);
+      expect(verified.replica).toEqual(first.cart.toPayload().replica);
+    });
+
+    it('should restore each copy of a token as a fresh replica', async () => {
+      const shared = await laptop.signedCart();
+      const phone = await CloudlessCart.fromToken(shared, config);
+      const tablet = await CloudlessCart.fromToken(shared, config);
+      expect(phone.getReplicaId()).toEqual(expect.any(String));
+      expect(phone.getReplicaId()).not.toBe('laptop');
+      expect(tablet.getReplicaId()).not.toBe(phone.getReplicaId());
+
+      phone.addItem({ sku: 'mug', unitPrice: 899 });
+      tablet.addItem({ sku: 'cap', unitPrice: 1299 });
+      phone.mergeReplica(tablet);
+      // Concurrent adds are ordered by the random replica ids
+      expect(phone.getItems().map(item => item.sku).sort()).toEqual(['cap', 'mug', 'pen']);
+    });
+
+    it('should merge saved and wishlist lines', async () => {
+      laptop.addItem({ sku: 'lamp', unitPrice: 4999 }, 'saved');
+      const shared = await laptop.signedCart();
+      const phone = await CloudlessCart.fromToken(shared, config, { replicaId: 'phone' });
+
+      laptop.moveItem('lamp', 'saved', 'cart');
+      phone.addItem({ sku: 'bike', unitPrice: 50000 }, 'wishlist');
+      laptop.mergeReplica(phone);
+      phone.mergeReplica(laptop);
+
+      expect(laptop.getItems().map(item => item.sku)).toEqual(['pen', 'lamp']);
+      expect(laptop.getItems('saved')).toEqual([]);
+      expect(laptop.getItems('wishlist').map(item => item.sku)).toEqual(['bike']);
+      expect(phone.toPayload().collections).toEqual(laptop.toPayload().collections);
+      expect(phone.getItems()).toEqual(laptop.getItems());
+    });
+
+    it('should refuse to merge separately signed collections that differ', async () => {
+      laptop.setSigning({ ...config, collections: 'separate' });
+      const phone = await CloudlessCart.fromToken(await laptop.signedCart(), {
+        ...config,
+        collections: 'separate',
+      });
+      phone.addItem({ sku: 'lamp', unitPrice: 4999 }, 'saved');
+      expect(phone.toPayload().replica).not.toHaveProperty('collections');
+      expect(() => laptop.mergeReplica(phone)).toThrow(
+        'Cannot merge replicas whose separately signed collections differ'
+      );
+    });
+
+    it('should refuse a payload whose lines disagree with the replica', async () => {
+      const token = (await laptop.signedCart()) as SignedObject;
+      const payload = await laptop.verifyCart(token);
+      payload.items = [];
+      payload.discounts = [];
+      payload.totals = new CloudlessCart().getTotals();
+      await expect(CloudlessCart.fromPayload(payload)).rejects.toThrow(
+        'Cart replica state does not match line items'
+      );
+    });
+
+    it('should only merge replicas of the same cart', () => {
+      const other = new CloudlessCart({ replicaId: 'phone' });
+      expect(() => laptop.mergeReplica(other)).toThrow('different carts');
+      expect(() => laptop.mergeReplica(new CloudlessCart())).toThrow(
+        'Both carts must be replicated'
+      );
+    });
+  });
+});
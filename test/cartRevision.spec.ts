@@ -0,0 +1,86 @@
+import CloudlessCart, { CartPayload } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import RevisionVerifier, { RevisionRecord } from '../src/cartRevision';
+
+describe('cart revisions', () => {
+  let crypto: CloudlessCrypto;
+  let signingKey: string;
+  let cart: CloudlessCart;
+
+  const signAndVerify = async (): Promise<CartPayload> =>
+    (await cart.verifyCart(await cart.signedCart())) as unknown as CartPayload;
+
+  beforeEach(async () => {
+    crypto = new CloudlessCrypto();
+    signingKey = (await crypto.generateSigningKeyPair()).key;
+    cart = new CloudlessCart({ signing: { crypto, signingKey } });
+    cart.addItem({ sku: 'book', unitPrice: 2999 });
+  });
+
+  it('should increase the revision and link to the previous hash', async () => {
+    const first = await signAndVerify();
+    cart.addItem({ sku: 'pen', unitPrice: 299 });
+    const second = await signAndVerify();
+    expect(first.revision).toBe(1);
+    expect(first.previousHash).toBeUndefined();
+    expect(second.revision).toBe(2);
+    expect(second.previousHash).toHaveLength(64);
+    expect(second.cartId).toBe(first.cartId);
+    expect(cart.getRevision()).toBe(2);
+  });
+
+  it('should continue the chain after restoring from a token', async () => {
+    const first = await signAndVerify();
+    const token = await cart.signedCart();
+    const second = (await cart.verifyCart(token)) as unknown as CartPayload;
+    const restored = await CloudlessCart.fromToken(token, { crypto, signingKey });
+    expect(restored.getRevision()).toBe(2);
+    restored.updateQuantity('book', 2);
+    const third = (await restored.verifyCart(await restored.signedCart())) as unknown as CartPayload;
+    expect(third.revision).toBe(3);
+    expect(third.cartId).toBe(first.cartId);
+    expect((await new RevisionVerifier().verifyChain([first, second, third])).valid).toBe(true);
+  });
+
+  it('should validate a whole chain', async () => {
+    const revisions = [await signAndVerify(), await signAndVerify()];
+    cart.clearCart();
+    revisions.push(await signAndVerify());
+    const verifier = new RevisionVerifier();
+    const chain = await verifier.verifyChain(revisions);
+    expect(chain.valid).toBe(true);
+    expect(chain.head?.revision).toBe(3);
+
+    const broken = await verifier.verifyChain([revisions[0], revisions[2]]);
+    expect(broken).toMatchObject({ valid: false, index: 1 });
+  });
+
+  it('should reject rollbacks and forks', async () => {
+    const store = new Map<string, RevisionRecord>();
+    const verifier = new RevisionVerifier(store);
+    const first = await signAndVerify();
+    const second = await signAndVerify();
+    expect((await verifier.accept(first)).valid).toBe(true);
+    expect((await verifier.accept(second)).valid).toBe(true);
+    expect(store.get(cart.getCartId())?.revision).toBe(2);
+
+    expect((await verifier.accept(second)).valid).toBe(true);
+    const rollback = await verifier.accept(first);
+    expect(rollback.valid).toBe(false);
+    expect(rollback.error).toBe('Revision 1 is older than latest revision 2');
+
+    const fork = await CloudlessCart.fromPayload(first, { crypto, signingKey });
+    fork.addItem({ sku: 'forked', unitPrice: 1 });
+    const forked = (await fork.verifyCart(await fork.signedCart())) as unknown as CartPayload;
+    expect((await verifier.accept(forked)).error).toBe('Revision 2 conflicts with the known revision');
+  });
+
+  it('should optionally refuse gaps', async () => {
+    const verifier = new RevisionVerifier(undefined, { allowGaps: false });
+    await verifier.accept(await signAndVerify());
+    await signAndVerify();
+    expect((await verifier.accept(await signAndVerify())).error).toBe(
+      'Revision 3 skips ahead of revision 1'
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import CheckoutSessions from '../src/checkoutSession';
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+
+describe('CheckoutSessions', () => {
+  let crypto: CloudlessCrypto;
+  let sessions: CheckoutSessions;
+  let cart: CloudlessCart;
+
+  beforeAll(async () => {
+    crypto = new CloudlessCrypto();
+    sessions = new CheckoutSessions(crypto, {
+      signingKey: (await crypto.generateSigningKeyPair()).key,
+      encryptionKey: (await crypto.generateEncryptionKeyPair()).key,
+    });
+  });
+
+  beforeEach(async () => {
+    cart = new CloudlessCart({
+      signing: { crypto, signingKey: (await crypto.generateSigningKeyPair()).key },
+    });
+    cart.addItem({ sku: 'lamp', unitPrice: 4500 });
+    await cart.signedCart();
+  });
+
+  it('should freeze the signed revision', async () => {
+    const token = await sessions.createSession(cart, { audience: 'payments' });
+    expect(JSON.stringify(token)).not.toContain('lamp');
+    const check = await sessions.verifyCheckoutSession(token, {
+      audience: 'payments',
+      cart,
+    });
+    expect(check.valid).toBe(true);
+    expect(check.session).toMatchObject({
+      type: 'checkout-session',
+      audience: 'payments',
+      cartId: cart.getCartId(),
+      revision: 1,
+      cartHash: cart.getRevisionHash(),
+    });
+    expect(check.session?.cart.totals.total).toBe(4500);
+    expect(check.session?.expiresAt).toBe(
+      (check.session?.createdAt as number) + 15 * 60 * 1000
+    );
+  });
+
+  it('should derive the same idempotency key for the same revision', async () => {
+    const verify = async (token: SignedObject) =>
+      (await sessions.verifyCheckoutSession(token, { audience: 'payments', cart }))
+        .session;
+    const first = await verify(await sessions.createSession(cart, { audience: 'payments' }));
+    const retry = await verify(await sessions.createSession(cart, { audience: 'payments' }));
+    expect(retry?.sessionId).not.toBe(first?.sessionId);
+    expect(retry?.idempotencyKey).toBe(first?.idempotencyKey);
+
+    const explicit = await verify(
+      await sessions.createSession(cart, { audience: 'payments', idempotencyKey: 'order-1' })
+    );
+    expect(explicit?.idempotencyKey).toBe('order-1');
+  });
+
+  it('should enforce audience and expiry', async () => {
+    const token = await sessions.createSession(cart, { audience: 'payments', ttl: 60000 });
+    const wrong = await sessions.verifyCheckoutSession(token, { audience: 'shipping', cart });
+    expect(wrong.error).toBe('Checkout session is not for shipping');
+    const late = await sessions.verifyCheckoutSession(token, {
+      audience: 'payments',
+      cart,
+      now: Date.now() + 60001,
+    });
+    expect(late.error).toBe('Checkout session has expired');
+  });
+
+  it('should reject sessions once the cart changed', async () => {
+    const token = await sessions.createSession(cart, { audience: 'payments' });
+    cart.updateQuantity('lamp', 2);
+    await expect(sessions.createSession(cart, { audience: 'payments' })).rejects.toThrow(
+      'Cart has unsigned changes'
+    );
+    const unsigned = await sessions.verifyCheckoutSession(token, { audience: 'payments', cart });
+    expect(unsigned.error).toBe('Cart changed since the checkout session was created');
+    await cart.signedCart();
+    const resigned = await sessions.verifyCheckoutSession(token, { audience: 'payments', cart });
+    expect(resigned.valid).toBe(false);
+  });
+
+  it('should reject tampered sessions', async () => {
+    const token = await sessions.createSession(cart, { audience: 'payments' });
+    const tampered = { ...token, payload: { ...token.payload, timestamp: 0 } };
+    const check = await sessions.verifyCheckoutSession(tampered, { audience: 'payments', cart });
+    expect(check.valid).toBe(false);
+  });
+});
@@ -0,0 +1,337 @@
+import CloudlessCart, { detectCartTokenMode } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+
+describe('CloudlessCart', () => {
+  let cart: CloudlessCart;
+
+  beforeEach(() => {
+    cart = new CloudlessCart();
+  });
+
+  describe('line items', () => {
+    it('should default quantity to 1', () => {
+      const item = cart.addItem({ sku: 'book-1', unitPrice: 2999 });
+      expect(item).toEqual({ sku: 'book-1', unitPrice: 2999, quantity: 1 });
+    });
+
+    it('should merge quantities for the same sku and options', () => {
+      cart.addItem({ sku: 'shirt', unitPrice: 1500, options: { size: 'M', color: 'red' } });
+      cart.addItem({
+        sku: 'shirt',
+        unitPrice: 1500,
+        quantity: 2,
+        options: { color: 'red', size: 'M' },
+      });
+      expect(cart.getItems()).toHaveLength(1);
+      expect(cart.findItem('shirt', { size: 'M', color: 'red' })?.quantity).toBe(3);
+    });
+
+    it('should keep separate lines for different options', () => {
+      cart.addItem({ sku: 'shirt', unitPrice: 1500, options: { size: 'M' } });
+      cart.addItem({ sku: 'shirt', unitPrice: 1500, options: { size: 'L' } });
+      cart.addItem({ sku: 'shirt', unitPrice: 1500 });
+      expect(cart.getItems()).toHaveLength(3);
+    });
+
+    it('should update and remove quantities', () => {
+      cart.addItem({ sku: 'pen', unitPrice: 299 });
+      expect(cart.updateQuantity('pen', 5)?.quantity).toBe(5);
+      expect(cart.updateQuantity('pen', 0)).toBeUndefined();
+      expect(cart.findItem('pen')).toBeUndefined();
+    });
+
+    it('should report whether an item was removed', () => {
+      cart.addItem({ sku: 'pen', unitPrice: 299 });
+      expect(cart.removeItem('pen', { color: 'blue' })).toBe(false);
+      expect(cart.removeItem('pen')).toBe(true);
+      expect(cart.getItems()).toEqual([]);
+    });
+
+    it('should reject invalid items', () => {
+      expect(() => cart.addItem({ sku: '', unitPrice: 1 })).toThrow('sku');
+      expect(() => cart.addItem({ sku: 'a', unitPrice: 1, quantity: 1.5 })).toThrow(
+        'quantity must be a positive integer'
+      );
+      expect(() => cart.addItem({ sku: 'a', unitPrice: -1 })).toThrow('unitPrice');
+      expect(() => cart.updateQuantity('missing', 1)).toThrow('Item missing not found in cart');
+    });
+
+    it('should not expose internal line items', () => {
+      cart.addItem({ sku: 'pen', unitPrice: 299 });
+      cart.getItems()[0].quantity = 100;
+      expect(cart.findItem('pen')?.quantity).toBe(1);
+    });
+  });
+
+  describe('totals', () => {
+    it('should compute exact totals in minor units', () => {
+      cart = new CloudlessCart({ taxRate: '0.08' });
+      cart.addItem({ sku: 'book-1', unitPrice: 2999 });
+      cart.addItem({ sku: 'pen-1', unitPrice: 299, quantity: 3 });
+      const totals = cart.getTotals();
+      expect(totals.subtotal).toBe(3896);
+      expect(totals.tax).toBe(312);
+      expect(totals.total).toBe(4208);
+      expect(totals.lines.map(line => line.total)).toEqual([3239, 969]);
+    });
+
+    it('should apply discounts before tax', () => {
+      cart = new CloudlessCart({ taxRate: '0.10' });
+      cart.addItem({ sku: 'a', unitPrice: 1000 });
+      cart.addItem({ sku: 'b', unitPrice: 500, quantity: 2 });
+      cart.addDiscount({ id: 'b-off', sku: 'b', amount: 200 });
+      cart.addDiscount({ id: 'ten', rate: '0.10' });
+      const totals = cart.getTotals();
+      expect(totals.discounts).toEqual([
+        { id: 'b-off', amount: 200 },
+        { id: 'ten', amount: 180 },
+      ]);
+      expect(totals.discount).toBe(380);
+      expect(totals.tax).toBe(162);
+      expect(totals.total).toBe(2000 - 380 + 162);
+    });
+
+    it('should cap discounts at the value of the targeted lines', () => {
+      cart.addItem({ sku: 'a', unitPrice: 100 });
+      cart.addDiscount({ id: 'big', amount: 500 });
+      expect(cart.getTotals().total).toBe(0);
+    });
+
+    it('should use the currency minor unit', () => {
+      cart = new CloudlessCart({ currency: 'JPY' });
+      cart.addItem({ sku: 'a', unitPrice: 1200 });
+      expect(cart.getTotals()).toMatchObject({ currency: 'JPY', total: 1200 });
+      expect(() => new CloudlessCart({ currency: 'usd' })).toThrow('Invalid currency code');
+    });
+
+    it('should reject prices that are not minor units', () => {
+      expect(() => cart.addItem({ sku: 'a', unitPrice: 19.99 })).toThrow('minor units');
+    });
+  });
+
+  describe('signing', () => {
+    it('should sign a versioned payload', async () => {
+      cart.addItem({ sku: 'pen', unitPrice: 299, name: 'Blue Pen', metadata: { color: 'blue' } });
+      const crypto = new CloudlessCrypto();
+      cart.setSigning({ crypto, signingKey: (await crypto.generateSigningKeyPair()).key });
+      const signed = (await cart.signedCart()) as SignedObject;
+      expect(signed.payload).toMatchObject({
+        version: 1,
+        currency: 'USD',
+        items: [
+          { sku: 'pen', unitPrice: 299, quantity: 1, name: 'Blue Pen', metadata: { color: 'blue' } },
+        ],
+        discounts: [],
+        totals: { subtotal: 299, discount: 0, tax: 0, total: 299 },
+      });
+    });
+
+    describe('token modes', () => {
+      let crypto: CloudlessCrypto;
+      let signingKey: string;
+      let encryptionKey: string;
+
+      beforeEach(async () => {
+        crypto = new CloudlessCrypto();
+        signingKey = (await crypto.generateSigningKeyPair()).key;
+        encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+        cart.addItem({ sku: 'pen', unitPrice: 299, quantity: 2 });
+      });
+
+      it('should reuse the configured signing key', async () => {
+        cart.setSigning({ crypto, signingKey });
+        const first = (await cart.signedCart()) as SignedObject;
+        const second = (await cart.signedCart()) as SignedObject;
+        expect(first.protected).toEqual(second.protected);
+        expect(await crypto.signer.hasKey(signingKey)).toBe(true);
+        const verified = await crypto.verifyObject(first, signingKey);
+        expect(verified.totals).toEqual(cart.getTotals());
+      });
+
+      it('should produce a JWE for sign-then-encrypt', async () => {
+        cart.setSigning({ crypto, signingKey, encryptionKey, mode: 'sign-then-encrypt' });
+        const token = await cart.signedCart();
+        expect(typeof token).toBe('string');
+        expect((await cart.verifyCart(token)).items).toEqual(cart.getItems());
+      });
+
+      it('should produce a signed envelope for encrypt-then-sign', async () => {
+        cart.setSigning({ crypto, signingKey, encryptionKey, mode: 'encrypt-then-sign' });
+        const token = (await cart.signedCart()) as SignedObject;
+        expect(token.payload).toHaveProperty('encrypted');
+        expect(token.payload).not.toHaveProperty('items');
+        expect((await cart.verifyCart(token)).items).toEqual(cart.getItems());
+      });
+
+      it('should validate the configuration', async () => {
+        cart.setSigning({ crypto, signingKey: 'missing' });
+        await expect(cart.signedCart()).rejects.toThrow('Signing key missing not found');
+        expect(() => cart.setSigning({ crypto, signingKey, mode: 'encrypt-then-sign' })).toThrow(
+          'requires an encryption key'
+        );
+      });
+
+      it('should throw when verification fails', async () => {
+        cart.setSigning({ crypto, signingKey });
+        const token = (await cart.signedCart()) as SignedObject;
+        token.payload.currency = 'EUR';
+        await expect(cart.verifyCart(token)).rejects.toThrow('Cart verification failed');
+      });
+    });
+
+    describe('restoration', () => {
+      let crypto: CloudlessCrypto;
+      let signingKey: string;
+      let encryptionKey: string;
+
+      beforeEach(async () => {
+        crypto = new CloudlessCrypto();
+        signingKey = (await crypto.generateSigningKeyPair()).key;
+        encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+        cart = new CloudlessCart({ currency: 'EUR', taxRate: '0.19' });
+        cart.addItem({ sku: 'shirt', unitPrice: 1999, quantity: 2, options: { size: 'M' } });
+        cart.addDiscount({ id: 'summer', rate: '0.15' });
+      });
+
+      it.each(['sign', 'sign-then-encrypt', 'encrypt-then-sign'] as const)(
+        'should round-trip a %s token',
+        async mode => {
+          cart.setSigning({ crypto, signingKey, encryptionKey, mode });
+          const token = await cart.signedCart();
+          const restored = await CloudlessCart.fromToken(token, { crypto, signingKey, encryptionKey });
+          expect(restored.toPayload()).toEqual(cart.toPayload());
+
+          restored.updateQuantity('shirt', 3, { size: 'M' });
+          const resigned = await restored.signedCart();
+          expect(detectCartTokenMode(resigned)).toBe(mode);
+          expect((await restored.verifyCart(resigned)).totals).toEqual(restored.getTotals());
+        }
+      );
+
+      it('should refuse tampered tokens', async () => {
+        cart.setSigning({ crypto, signingKey });
+        const token = (await cart.signedCart()) as SignedObject;
+        token.payload.taxRate = '0';
+        await expect(CloudlessCart.fromToken(token, { crypto, signingKey })).rejects.toThrow(
+          'Cart verification failed'
+        );
+      });
+
+      it('should require an encryption key for encrypted tokens', async () => {
+        cart.setSigning({ crypto, signingKey, encryptionKey, mode: 'encrypt-then-sign' });
+        const token = await cart.signedCart();
+        await expect(CloudlessCart.fromToken(token, { crypto, signingKey })).rejects.toThrow(
+          'requires an encryption key'
+        );
+      });
+
+      it('should refuse payloads whose totals do not match', async () => {
+        const payload = cart.toPayload();
+        payload.totals.total += 1;
+        await expect(CloudlessCart.fromPayload(payload)).rejects.toThrow(
+          'Cart totals do not match line items'
+        );
+        await expect(CloudlessCart.fromPayload({ version: 1, items: 'nope' })).rejects.toThrow();
+      });
+    });
+  });
+
+  describe('merging', () => {
+    let guest: CloudlessCart;
+
+    beforeEach(() => {
+      cart.addItem({ sku: 'pen', unitPrice: 299, quantity: 2 });
+      cart.addItem({ sku: 'mug', unitPrice: 899 });
+      guest = new CloudlessCart();
+      guest.addItem({ sku: 'pen', unitPrice: 249, quantity: 3 });
+      guest.addItem({ sku: 'cap', unitPrice: 1500 });
+      guest.addDiscount({ id: 'welcome', amount: 100 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it.each([
+      ['sum', 5, 299],
+      ['max', 3, 299],
+      ['account', 2, 299],
+    ] as const)('should combine shared lines with the %s policy', (policy, quantity, unitPrice) => {
+      cart.merge(guest, policy);
+      expect(cart.findItem('pen')).toMatchObject({ quantity, unitPrice });
+      expect(cart.getItems().map(item => item.sku)).toEqual(['pen', 'mug', 'cap']);
+      expect(cart.getDiscounts()).toEqual([{ id: 'welcome', amount: 100 }]);
+    });
+
+    it('should take shared lines from the most recently updated cart', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(guest.getUpdatedAt() + 1000);
+      cart.updateQuantity('mug', 2);
+      guest.merge(cart, 'newest');
+      expect(guest.findItem('pen')).toMatchObject({ quantity: 2, unitPrice: 299 });
+
+      const other = new CloudlessCart();
+      other.addItem({ sku: 'pen', unitPrice: 199, quantity: 7 });
+      cart.merge(other, 'newest');
+      expect(cart.findItem('pen')).toMatchObject({ quantity: 2, unitPrice: 299 });
+    });
+
+    it('should keep the account discount when ids collide', () => {
+      cart.addDiscount({ id: 'welcome', rate: '0.1' });
+      cart.merge(guest);
+      expect(cart.getDiscounts()).toEqual([{ id: 'welcome', rate: '0.1' }]);
+    });
+
+    it('should refuse carts in another currency', () => {
+      expect(() => cart.merge(new CloudlessCart({ currency: 'EUR' }))).toThrow(
+        'Cannot merge a EUR cart into a USD cart'
+      );
+    });
+
+    it('should verify, merge and re-sign tokens with provenance', async () => {
+      const crypto = new CloudlessCrypto();
+      const signingKey = (await crypto.generateSigningKeyPair()).key;
+      const encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+      const config = { crypto, signingKey, encryptionKey, mode: 'encrypt-then-sign' as const };
+      cart.setSigning(config);
+      guest.setSigning(config);
+      const accountToken = await cart.signedCart();
+      const guestToken = await guest.signedCart();
+
+      const { cart: merged, token } = await CloudlessCart.mergeTokens(
+        accountToken,
+        guestToken,
+        config,
+        'max'
+      );
+      expect(merged.getCartId()).toBe(cart.getCartId());
+      expect(merged.getRevision()).toBe(2);
+      const payload = await merged.verifyCart(token);
+      expect(payload.items).toEqual(merged.getItems());
+      expect(payload.merges).toEqual([
+        {
+          cartId: guest.getCartId(),
+          revision: 1,
+          hash: expect.any(String),
+          policy: 'max',
+          mergedAt: expect.any(Number),
+        },
+      ]);
+
+      const restored = await CloudlessCart.fromToken(token, config);
+      expect(restored.toPayload()).toEqual(merged.toPayload());
+    });
+
+    it('should refuse a tampered guest token', async () => {
+      const crypto = new CloudlessCrypto();
+      const config = { crypto, signingKey: (await crypto.generateSigningKeyPair()).key };
+      cart.setSigning(config);
+      guest.setSigning(config);
+      const guestToken = (await guest.signedCart()) as SignedObject;
+      guestToken.payload.discounts = [];
+      await expect(
+        CloudlessCart.mergeTokens(await cart.signedCart(), guestToken, config)
+      ).rejects.toThrow('Cart verification failed');
+    });
+  });
+});
@@ -20,7 +20,7 @@ describe('CloudlessCrypto', () => {
       const encryptionKey = await crypto.generateEncryptionKeyPair();
       
       expect(typeof crypto.signer.hasKey).toBe('function');
-      expect(crypto.encryptor.hasKey(encryptionKey.key)).toBe(true);
+      expect(await crypto.encryptor.hasKey(encryptionKey.key)).toBe(true);
     });
   });
 
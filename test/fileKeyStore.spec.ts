@@ -0,0 +1,67 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import FileKeyStore from '../src/fileKeyStore';
+
+describe('FileKeyStore', () => {
+  let directory: string;
+  let path: string;
+  const open = (passphrase = 'correct horse') =>
+    new FileKeyStore(path, passphrase, { iterations: 1000 });
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cloudless-cart-keys-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    path = join(directory, `${Math.random()}.jwe`);
+  });
+
+  it('should keep keys across restarts', async () => {
+    const crypto = new CloudlessCrypto(open());
+    const signingKey = (await crypto.generateSigningKeyPair()).key;
+    const encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+    const cart = new CloudlessCart({
+      signing: { crypto, signingKey, encryptionKey, mode: 'encrypt-then-sign' },
+    });
+    cart.addItem({ sku: 'pen', unitPrice: 299 });
+    const token = await cart.signedCart();
+
+    const restarted = new CloudlessCrypto(open());
+    expect(await restarted.encryptor.getAvailableKeys()).toEqual([signingKey, encryptionKey]);
+    const restored = await CloudlessCart.fromToken(token, {
+      crypto: restarted,
+      signingKey,
+      encryptionKey,
+    });
+    expect(restored.getItems()).toEqual(cart.getItems());
+  });
+
+  it('should encrypt the file at rest', async () => {
+    const crypto = new CloudlessCrypto(open());
+    const { key } = await crypto.generateSigningKeyPair();
+    const { privateKey } = await crypto.signer.exportKeyPair(key);
+    const contents = readFileSync(path, 'utf8');
+    expect(contents.split('.')).toHaveLength(5);
+    expect(contents).not.toContain(key);
+    expect(contents).not.toContain(privateKey.d as string);
+
+    await expect(open('wrong').get(key)).rejects.toThrow(`Key file ${path} could not be decrypted`);
+  });
+
+  it('should delete keys', async () => {
+    const store = open();
+    const crypto = new CloudlessCrypto(store);
+    const { key } = await crypto.generateSigningKeyPair();
+    expect(await store.delete(key)).toBe(true);
+    expect(await store.delete(key)).toBe(false);
+    expect(await open().keys()).toEqual([]);
+    expect(await crypto.signer.hasKey(key)).toBe(false);
+  });
+});
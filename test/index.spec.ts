@@ -1,17 +1,18 @@
-import { CloudlessCart, JsonSignature } from '../src';
+import { CloudlessCart, CloudlessCrypto, SignedObject } from '../src';
 
 void describe('index', () => {
   void it('adding a single string should return a single item array', () => {
     const cart = new CloudlessCart();
-    cart.addItem({ name: 'item', price: 10 });
+    cart.addItem({ sku: 'item', unitPrice: 10 });
     // eslint-disable-next-line @typescript-eslint/no-unsafe-call,@typescript-eslint/no-unsafe-member-access
-    expect(cart.getItems()).toEqual([{ name: 'item', price: 10 }]);
+    expect(cart.getItems()).toEqual([{ sku: 'item', unitPrice: 10, quantity: 1 }]);
   });
   void it('adding a single object should return a single item array', () => {
     const cart = new CloudlessCart();
     const item = {
-      name: 'item',
-      price: 10,
+      sku: 'item',
+      unitPrice: 10,
+      quantity: 1,
     };
 
     cart.addItem(item);
@@ -21,8 +22,9 @@ void describe('index', () => {
   void it('clearing items should work', () => {
     const cart = new CloudlessCart();
     const item = {
-      name: 'item',
-      price: 10,
+      sku: 'item',
+      unitPrice: 10,
+      quantity: 1,
     };
 
     cart.addItem(item);
@@ -34,33 +36,30 @@ void describe('index', () => {
   });
   void it('should throw an error if no signer is set', async () => {
     const cart = new CloudlessCart();
-    cart.addItem({ name: 'item', price: 10 });
+    cart.addItem({ sku: 'item', unitPrice: 10 });
     await expect(cart.signedCart()).rejects.toThrow('No signer set');
   });
   void it('should return signed cart is signer is set', async () => {
     const cart = new CloudlessCart();
-    const signer = new JsonSignature();
-    await signer.generateKeyPair();
-    cart.addItem({ name: 'item', price: 10 });
-    cart.setSigner(signer);
-    const signed = await cart.signedCart();
+    const crypto = new CloudlessCrypto();
+    const { key } = await crypto.generateSigningKeyPair();
+    cart.addItem({ sku: 'item', unitPrice: 10 });
+    cart.setSigning({ crypto, signingKey: key });
+    const signed = (await cart.signedCart()) as SignedObject;
     expect(signed).toBeDefined();
-    expect(signed.signed).toBeDefined();
-    expect(signed.signed.payload.items).toEqual(cart.getItems());
+    expect(signed.signature).toBeDefined();
+    expect(signed.payload.items).toEqual(cart.getItems());
   });
   void it('should be able to verify cart', async () => {
     const cart = new CloudlessCart();
-    const signer = new JsonSignature();
-    await signer.generateKeyPair();
+    const crypto = new CloudlessCrypto();
+    const { key } = await crypto.generateSigningKeyPair();
 
-    cart.addItem({ name: 'item', price: 10 });
-    cart.setSigner(signer);
+    cart.addItem({ sku: 'item', unitPrice: 10 });
+    cart.setSigning({ crypto, signingKey: key });
     const signed = await cart.signedCart();
     expect(signed).toBeDefined();
-    const verifiedCart = await cart.verifyCart(
-      signed.signed,
-      signed.keypair.key
-    );
+    const verifiedCart = await cart.verifyCart(signed);
     expect(verifiedCart.items).toEqual(cart.getItems());
   });
   void it('should throw an error if no signer is set', async () => {
@@ -70,7 +69,7 @@ void describe('index', () => {
       protected: 'protected',
       payload: {},
     };
-    await expect(cart.verifyCart(signed, 'foo')).rejects.toThrow(
+    await expect(cart.verifyCart(signed)).rejects.toThrow(
       'No signer set'
     );
   });
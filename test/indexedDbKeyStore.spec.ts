@@ -0,0 +1,104 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { generateKeyPair } from 'jose';
+import { webcrypto } from 'crypto';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import IndexedDbKeyStore from '../src/indexedDbKeyStore';
+import { KeyPair } from '../src/jsonSignature';
+
+describe('IndexedDbKeyStore', () => {
+  let factory: IDBFactory;
+  const open = () => new IndexedDbKeyStore({ indexedDB: factory });
+
+  // WebCrypto keys, as a browser would generate them
+  const signingPair = async (): Promise<KeyPair> => {
+    const { publicKey, privateKey } = await webcrypto.subtle.generateKey(
+      {
+        name: 'RSA-PSS',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify']
+    );
+    return { publicKey, privateKey, alg: 'PS256', use: 'sig' } as KeyPair;
+  };
+  const encryptionPair = async (): Promise<KeyPair> => {
+    const { publicKey, privateKey } = await webcrypto.subtle.generateKey(
+      {
+        name: 'RSA-OAEP',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+    );
+    return { publicKey, privateKey, alg: 'RSA-OAEP-256', use: 'enc' } as KeyPair;
+  };
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('should set, get, list and delete keys', async () => {
+    const store = open();
+    const pair = await signingPair();
+    await store.set('signing', pair);
+    await store.set('other', { publicKey: pair.publicKey, alg: 'PS256' });
+
+    expect((await store.keys()).sort()).toEqual(['other', 'signing']);
+    expect(await store.get('signing')).toMatchObject({ alg: 'PS256', use: 'sig' });
+    expect(await store.delete('other')).toBe(true);
+    expect(await store.delete('other')).toBe(false);
+    expect(await store.get('other')).toBeUndefined();
+    expect(await store.keys()).toEqual(['signing']);
+  });
+
+  it('should keep keys across connections', async () => {
+    const store = open();
+    await store.set('signing', await signingPair());
+    await store.close();
+    expect(await open().keys()).toEqual(['signing']);
+  });
+
+  it('should store private keys non-extractable', async () => {
+    const store = open();
+    await store.set('signing', await signingPair());
+    const stored = (await store.get('signing')) as unknown as {
+      publicKey: webcrypto.CryptoKey;
+      privateKey: webcrypto.CryptoKey;
+    };
+    expect(stored.privateKey.extractable).toBe(false);
+    expect(stored.publicKey.extractable).toBe(true);
+
+    const crypto = new CloudlessCrypto(store);
+    await expect(crypto.signer.exportKeyPair('signing')).rejects.toThrow();
+    expect(await crypto.signer.getPublicKey('signing')).toMatchObject({ kty: 'RSA' });
+  });
+
+  it('should refuse private keys that are not CryptoKeys', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('PS256');
+    const pair = { publicKey, privateKey, alg: 'PS256' } as KeyPair;
+    // jose returns KeyObjects under Node, they can't be kept in IndexedDB
+    await expect(open().set('node', pair)).rejects.toThrow(
+      'IndexedDbKeyStore can only store CryptoKeys'
+    );
+    expect(await open().keys()).toEqual([]);
+  });
+
+  it('should sign, verify, encrypt and decrypt through CloudlessCrypto', async () => {
+    const store = open();
+    await store.set('signing', await signingPair());
+    await store.set('encryption', await encryptionPair());
+
+    const crypto = new CloudlessCrypto(open());
+    const signed = await crypto.signObject('signing', { order: 1 });
+    expect(await crypto.verifyObject(signed, 'signing')).toMatchObject({ order: 1 });
+
+    const token = await crypto.encryptThenSign('encryption', 'signing', { order: 2 });
+    expect(await crypto.verifyThenDecrypt('signing', 'encryption', token)).toMatchObject({
+      order: 2,
+    });
+  });
+});
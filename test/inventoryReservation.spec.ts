@@ -0,0 +1,104 @@
+import CloudlessCart from '../src/cloudlessCart';
+import InventoryReservations from '../src/inventoryReservation';
+import JsonSignature from '../src/jsonSignature';
+
+describe('InventoryReservations', () => {
+  let reservations: InventoryReservations;
+  let inventoryKey: string;
+  let cart: CloudlessCart;
+  const trusted = (now?: number) => ({ trustedKeys: [inventoryKey], now });
+
+  beforeEach(async () => {
+    const signer = new JsonSignature();
+    reservations = new InventoryReservations(signer);
+    inventoryKey = (await signer.generateKeyPair()).key;
+    cart = new CloudlessCart();
+  });
+
+  it('should sign a hold on a quantity of a SKU', async () => {
+    const reservation = await reservations.reserve(inventoryKey, {
+      sku: 'sneaker',
+      options: { size: '42' },
+      quantity: 1,
+      reservedAt: 1000,
+    });
+    expect(reservation.payload).toMatchObject({
+      type: 'inventory-reservation',
+      reservationId: expect.any(String),
+      sku: 'sneaker',
+      options: { size: '42' },
+      quantity: 1,
+      expiresAt: 1000 + 10 * 60 * 1000,
+    });
+    const check = await reservations.verifyReservation(reservation, [inventoryKey], 2000);
+    expect(check.valid).toBe(true);
+  });
+
+  it('should drop expired reservations and report the lines', async () => {
+    const now = Date.now();
+    cart.addItem({
+      sku: 'sneaker',
+      unitPrice: 12000,
+      reservation: await reservations.reserve(inventoryKey, {
+        sku: 'sneaker',
+        quantity: 1,
+        expiresAt: now + 1000,
+      }),
+    });
+    const lamp = await reservations.reserve(inventoryKey, {
+      sku: 'lamp',
+      quantity: 2,
+      cartId: cart.getCartId(),
+      expiresAt: now + 60000,
+    });
+    cart.addItem({ sku: 'lamp', unitPrice: 4500, quantity: 2, reservation: lamp });
+    cart.addItem({ sku: 'pen', unitPrice: 300 });
+
+    const result = await cart.refreshReservations(reservations, trusted(now + 5000));
+    expect(result.held).toEqual([
+      {
+        sku: 'lamp',
+        reservationId: lamp.payload.reservationId,
+        quantity: 2,
+        expiresAt: now + 60000,
+      },
+    ]);
+    expect(result.lost).toEqual([
+      {
+        sku: 'sneaker',
+        reservationId: expect.any(String),
+        error: 'Reservation has expired',
+      },
+    ]);
+    expect(cart.findItem('sneaker')?.reservation).toBeUndefined();
+    expect(cart.findItem('lamp')?.reservation).toEqual(lamp);
+  });
+
+  it('should report holds that do not cover the line', async () => {
+    const reserve = (sku: string, quantity: number, cartId?: string) =>
+      reservations.reserve(inventoryKey, { sku, quantity, cartId });
+    cart.addItem({ sku: 'lamp', unitPrice: 4500, reservation: await reserve('lamp', 1) });
+    cart.updateQuantity('lamp', 3);
+    cart.addItem({ sku: 'mug', unitPrice: 900, reservation: await reserve('cup', 1) });
+    cart.addItem({ sku: 'vase', unitPrice: 2000, reservation: await reserve('vase', 1, 'other') });
+
+    const result = await reservations.verifyCartReservations(cart.toPayload(), trusted());
+    expect(result.held).toEqual([]);
+    expect(result.lost.map(lost => lost.error)).toEqual([
+      'Reservation holds 1 of 3 units',
+      'Reservation is for a different item',
+      'Reservation is for another cart',
+    ]);
+  });
+
+  it('should not trust reservations from unknown keys', async () => {
+    const rogue = new JsonSignature();
+    const forged = await new InventoryReservations(rogue).reserve(
+      (await rogue.generateKeyPair()).key,
+      { sku: 'sneaker', quantity: 1 }
+    );
+    cart.addItem({ sku: 'sneaker', unitPrice: 12000, reservation: forged });
+    const result = await cart.refreshReservations(reservations, trusted());
+    expect(result.lost[0].error).toContain('is not trusted');
+  });
+});
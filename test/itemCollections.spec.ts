@@ -0,0 +1,124 @@
+import CloudlessCart, { CartSigningConfig } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { verifySharedCollection } from '../src/itemCollections';
+
+describe('Item collections', () => {
+  let crypto: CloudlessCrypto;
+  let signingKey: string;
+  let encryptionKey: string;
+  let config: CartSigningConfig;
+  let cart: CloudlessCart;
+
+  beforeAll(async () => {
+    crypto = new CloudlessCrypto();
+    signingKey = (await crypto.generateSigningKeyPair()).key;
+    encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+  });
+
+  beforeEach(() => {
+    config = { crypto, signingKey, encryptionKey, mode: 'encrypt-then-sign' };
+    cart = new CloudlessCart({ signing: config });
+    cart.addItem({ sku: 'lamp', unitPrice: 4500, quantity: 2 });
+    cart.addItem({ sku: 'mug', unitPrice: 900 });
+  });
+
+  it('should move lines between collections and total only the cart', () => {
+    cart.moveItem('lamp', 'cart', 'saved');
+    cart.addItem({ sku: 'mug', unitPrice: 900 }, 'saved');
+    cart.moveItem('mug', 'cart', 'saved');
+    cart.addItem({ sku: 'bike', unitPrice: 50000 }, 'wishlist');
+
+    expect(cart.getItems()).toEqual([]);
+    expect(cart.getItems('saved')).toEqual([
+      { sku: 'lamp', quantity: 2, unitPrice: 4500 },
+      { sku: 'mug', quantity: 2, unitPrice: 900 },
+    ]);
+    expect(cart.getTotals().total).toBe(0);
+
+    cart.moveItem('bike', 'wishlist', 'cart');
+    expect(cart.getTotals().total).toBe(50000);
+    expect(cart.getItems('wishlist')).toEqual([]);
+    expect(() => cart.moveItem('bike', 'wishlist', 'cart')).toThrow(
+      'Item bike not found in wishlist'
+    );
+    expect(() => cart.addItem({ sku: 'x', unitPrice: 1 }, 'later' as never)).toThrow(
+      'Unknown collection later'
+    );
+  });
+
+  it('should sign the collections together with the cart', async () => {
+    cart.moveItem('mug', 'cart', 'wishlist');
+    const token = await cart.signedCart();
+    const restored = await CloudlessCart.fromToken(token, config);
+    expect(restored.getItems()).toEqual(cart.getItems());
+    expect(restored.getItems('wishlist')).toEqual([{ sku: 'mug', quantity: 1, unitPrice: 900 }]);
+
+    cart.moveItem('mug', 'wishlist', 'cart');
+    const patched = await restored.applyPatchToken(await cart.signedPatch());
+    expect(patched.getItems('wishlist')).toEqual([]);
+    expect(patched.findItem('mug')?.quantity).toBe(1);
+  });
+
+  it('should sign collections separately when configured', async () => {
+    config.collections = 'separate';
+    cart = new CloudlessCart({ signing: config });
+    cart.addItem({ sku: 'lamp', unitPrice: 4500 });
+    cart.addItem({ sku: 'bike', unitPrice: 50000 }, 'wishlist');
+    expect(cart.toPayload().collections).toBeUndefined();
+
+    const cartToken = await cart.signedCart();
+    const wishlistToken = await cart.signedCollection('wishlist');
+    const restored = await CloudlessCart.fromToken(cartToken, config);
+    expect(restored.getItems('wishlist')).toEqual([]);
+    expect(await restored.restoreCollection(wishlistToken)).toBe('wishlist');
+    expect(restored.getItems('wishlist')).toEqual(cart.getItems('wishlist'));
+
+    const other = new CloudlessCart({ signing: config });
+    await expect(other.restoreCollection(wishlistToken)).rejects.toThrow(
+      'Collection is for another cart'
+    );
+  });
+
+  it('should share a read-only wishlist', async () => {
+    cart.addItem({ sku: 'bike', name: 'Bike', unitPrice: 50000 }, 'wishlist');
+    const share = await cart.shareCollection('wishlist', {
+      sharedBy: 'Alex',
+      sharedAt: 1000,
+      expiresAt: 5000,
+    });
+
+    // A friend only needs the public half of the signing key
+    const viewer = new CloudlessCrypto();
+    await viewer.signer.setPublicKey(signingKey, await crypto.signer.getPublicKey(signingKey));
+    const check = await verifySharedCollection(share, viewer, {
+      trustedKeys: [signingKey],
+      now: 2000,
+    });
+    expect(check.valid).toBe(true);
+    expect(check.shared).toMatchObject({
+      collection: 'wishlist',
+      currency: 'USD',
+      sharedBy: 'Alex',
+      items: [{ sku: 'bike', name: 'Bike', quantity: 1, unitPrice: 50000 }],
+    });
+    expect(share.payload.cartId).toBeUndefined();
+
+    const expired = await verifySharedCollection(share, viewer, {
+      trustedKeys: [signingKey],
+      now: 6000,
+    });
+    expect(expired.error).toBe('Share has expired');
+    await expect(cart.restoreCollection(share)).rejects.toThrow(
+      'Shared collections are read-only'
+    );
+    await expect(CloudlessCart.fromToken(share, config)).rejects.toThrow('Cart payload');
+  });
+
+  it('should copy missing saved lines when merging carts', () => {
+    const guest = new CloudlessCart();
+    guest.addItem({ sku: 'vase', unitPrice: 2000 }, 'saved');
+    cart.addItem({ sku: 'pen', unitPrice: 300 }, 'saved');
+    cart.merge(guest);
+    expect(cart.getItems('saved').map(item => item.sku)).toEqual(['pen', 'vase']);
+  });
+});
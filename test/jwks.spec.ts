@@ -0,0 +1,101 @@
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import KeyRotation from '../src/keyRotation';
+
+describe('JWKS', () => {
+  let publisher: CloudlessCrypto;
+  let signingKey: string;
+  let encryptionKey: string;
+
+  beforeEach(async () => {
+    publisher = new CloudlessCrypto();
+    signingKey = (await publisher.generateSigningKeyPair()).key;
+    encryptionKey = (await publisher.generateEncryptionKeyPair()).key;
+  });
+
+  it('should export the public keys as a JWK Set', async () => {
+    const jwks = await publisher.exportJwks();
+    expect(jwks.keys).toEqual([
+      expect.objectContaining({
+        kid: signingKey,
+        kty: 'RSA',
+        use: 'sig',
+        alg: 'PS256',
+        key_ops: ['verify'],
+      }),
+      expect.objectContaining({
+        kid: encryptionKey,
+        kty: 'RSA',
+        use: 'enc',
+        alg: 'RSA-OAEP-256',
+        key_ops: ['encrypt'],
+      }),
+    ]);
+    jwks.keys.forEach(key => expect(key).not.toHaveProperty('d'));
+    expect((await publisher.exportJwks({ use: 'enc' })).keys.map(key => key.kid)).toEqual([
+      encryptionKey,
+    ]);
+  });
+
+  it('should verify and encrypt with imported keys', async () => {
+    const jwks = JSON.parse(JSON.stringify(await publisher.exportJwks())) as unknown;
+    const consumer = new CloudlessCrypto();
+    expect(await consumer.importJwks(jwks)).toEqual([signingKey, encryptionKey]);
+
+    const signed = await publisher.signObject(signingKey, { order: 1 });
+    expect(await consumer.verifyObject(signed)).toMatchObject({ order: 1 });
+
+    const token = await consumer.encryptor.encryptToken(encryptionKey, { order: 2 });
+    expect(await publisher.encryptor.decryptToken(encryptionKey, token)).toMatchObject({
+      order: 2,
+    });
+    await expect(consumer.signObject(signingKey, {})).rejects.toThrow('Key not found');
+  });
+
+  it('should skip unusable keys and refuse private ones', async () => {
+    const jwks = await publisher.exportJwks();
+    const [sig, enc] = jwks.keys;
+    const consumer = new CloudlessCrypto();
+    expect(
+      await consumer.importJwks({
+        keys: [
+          { ...sig, kid: undefined },
+          { ...sig, alg: undefined },
+          { ...sig, kid: 'wrong-ops', key_ops: ['encrypt'] },
+          { ...sig, kid: 'odd-use', use: 'other' },
+          enc,
+        ],
+      })
+    ).toEqual([encryptionKey]);
+    expect(await consumer.importJwks(jwks, { use: 'sig' })).toEqual([signingKey]);
+    await expect(consumer.importJwks({ keys: 'none' })).rejects.toThrow('Not a JWK Set');
+
+    const { privateKey } = await publisher.signer.exportKeyPair(signingKey);
+    await expect(
+      consumer.importJwks({ keys: [{ ...privateKey, kid: 'leaked', alg: 'PS256' }] })
+    ).rejects.toThrow('JWKS key leaked is not a public key');
+  });
+
+  it('should publish pending and retiring keys but not revoked ones', async () => {
+    const rotation = new KeyRotation(publisher);
+    const first = await rotation.rotate('sig');
+    const second = await rotation.rotate('sig');
+    const next = await rotation.rotate('sig', { activatesAt: Date.now() + 60000 });
+    await rotation.revoke(first);
+
+    const published = (await publisher.exportJwks({ use: 'sig' })).keys.map(key => key.kid);
+    expect(published).toEqual([signingKey, second, next]);
+  });
+
+  it('should leave archived keys out', async () => {
+    const rotation = new KeyRotation(publisher, { gracePeriod: 0 });
+    const oldSig = await rotation.rotate('sig');
+    const oldEnc = await rotation.rotate('enc');
+    const sig = await rotation.rotate('sig');
+    const enc = await rotation.rotate('enc');
+
+    const published = (await publisher.exportJwks()).keys.map(key => key.kid);
+    expect(published).toEqual([signingKey, encryptionKey, sig, enc]);
+    expect(published).not.toContain(oldSig);
+    expect(published).not.toContain(oldEnc);
+  });
+});
@@ -0,0 +1,126 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import JwksResolver, { JwksResolverOptions } from '../src/jwksResolver';
+
+describe('JwksResolver', () => {
+  let server: Server;
+  let url: string;
+  let requests: number;
+  let status: number;
+  let publisher: CloudlessCrypto;
+  let signingKey: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests++;
+      publisher.exportJwks().then(
+        jwks => {
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify(jwks));
+        },
+        () => response.writeHead(500).end()
+      );
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = 0;
+    status = 200;
+    publisher = new CloudlessCrypto();
+    signingKey = (await publisher.generateSigningKeyPair()).key;
+  });
+
+  const verifier = (options: Partial<JwksResolverOptions> = {}) => {
+    const jwks = new JwksResolver({ url, ...options });
+    const crypto = new CloudlessCrypto();
+    crypto.setKeyResolver(kid => jwks.resolve(kid));
+    return { jwks, crypto };
+  };
+
+  it('should verify with keys fetched from the JWKS and cache them', async () => {
+    const { crypto } = verifier();
+    const signed = await publisher.signObject(signingKey, { order: 1 });
+    expect(await crypto.verifyObject(signed)).toMatchObject({ order: 1 });
+    expect(await crypto.verifyObject(signed)).toMatchObject({ order: 1 });
+    expect(requests).toBe(1);
+    // Resolved keys are not written to the store
+    expect(await crypto.signer.hasKey(signingKey)).toBe(false);
+
+    // A key published later is an unknown kid, which reloads the set
+    const next = (await publisher.generateSigningKeyPair()).key;
+    expect(await crypto.verifyObject(await publisher.signObject(next, { order: 2 }))).toMatchObject({
+      order: 2,
+    });
+    expect(requests).toBe(2);
+  });
+
+  it('should not reload for a missing kid during the cooldown', async () => {
+    const { jwks } = verifier();
+    expect(await jwks.resolve('missing')).toBeUndefined();
+    expect(await jwks.resolve('missing')).toBeUndefined();
+    expect(requests).toBe(1);
+    expect(await jwks.resolve(signingKey)).toBeDefined();
+    expect(requests).toBe(1);
+  });
+
+  it('should rate limit reloads', async () => {
+    const { jwks } = verifier({ rateLimit: { requests: 2, interval: 60000 } });
+    await Promise.all([jwks.resolve('a'), jwks.resolve('b')]);
+    expect(requests).toBe(1);
+    expect(await jwks.resolve('c')).toBeUndefined();
+    expect(await jwks.resolve('d')).toBeUndefined();
+    expect(requests).toBe(2);
+  });
+
+  it('should reload after the ttl and fall back to the cached set', async () => {
+    const { jwks, crypto } = verifier({ ttl: 0 });
+    const signed = await publisher.signObject(signingKey, { order: 3 });
+    expect(await crypto.verifyObject(signed)).toMatchObject({ order: 3 });
+    expect(await crypto.verifyObject(signed)).toMatchObject({ order: 3 });
+    expect(requests).toBe(2);
+
+    status = 503;
+    expect(await crypto.verifyObject(signed)).toMatchObject({ order: 3 });
+    jwks.clear();
+    expect((await crypto.verifyObject(signed)).error).toBe(
+      `JWKS ${url} could not be loaded: status 503`
+    );
+  });
+
+  it('should encrypt to keys from the JWKS', async () => {
+    const encryptionKey = (await publisher.generateEncryptionKeyPair()).key;
+    const { crypto } = verifier({ use: 'enc' });
+    const token = await crypto.encryptor.encryptToken(encryptionKey, { order: 4 });
+    expect(await publisher.encryptor.decryptToken(encryptionKey, token)).toMatchObject({
+      order: 4,
+    });
+    const signed = await publisher.signObject(signingKey, {});
+    expect((await crypto.verifyObject(signed)).error).toBe(`Key ${signingKey} not found`);
+  });
+
+  it('should read a local JWKS file', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'cloudless-cart-jwks-'));
+    try {
+      const file = join(directory, 'jwks.json');
+      writeFileSync(file, JSON.stringify(await publisher.exportJwks()));
+      const jwks = new JwksResolver({ file });
+      const crypto = new CloudlessCrypto();
+      crypto.setKeyResolver(kid => jwks.resolve(kid));
+      const signed = await publisher.signObject(signingKey, { order: 5 });
+      expect(await crypto.verifyObject(signed)).toMatchObject({ order: 5 });
+      expect(() => new JwksResolver({})).toThrow('JwksResolver needs either a url or a file');
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
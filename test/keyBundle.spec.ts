@@ -0,0 +1,106 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import FileKeyStore from '../src/fileKeyStore';
+import { KeyPair } from '../src/jsonSignature';
+import { exportKeyBundle, loadKeyBundle } from '../src/keyBundle';
+
+describe('Key bundles', () => {
+  const passphrase = 'correct horse';
+  const options = { iterations: 1000 };
+
+  it('should export and import a signing key with a passphrase', async () => {
+    const crypto = new CloudlessCrypto();
+    const { key } = await crypto.generateSigningKeyPair();
+    const exported = await crypto.signer.exportProtectedKeyPair(key, passphrase, options);
+    const { privateKey } = await crypto.signer.exportKeyPair(key);
+    expect(exported.privateKey.split('.')).toHaveLength(5);
+    expect(exported.privateKey).not.toContain(privateKey.d as string);
+
+    const restored = new CloudlessCrypto();
+    await restored.signer.importProtectedKeyPair(exported, passphrase);
+    const signed = await restored.signObject(key, { order: 1 });
+    expect(await crypto.verifyObject(signed)).toMatchObject({ order: 1 });
+
+    await expect(restored.signer.importProtectedKeyPair(exported, 'wrong')).rejects.toThrow(
+      'Decryption with passphrase failed'
+    );
+  });
+
+  it('should export and import an encryption key with a passphrase', async () => {
+    const crypto = new CloudlessCrypto();
+    const signingKey = (await crypto.generateSigningKeyPair()).key;
+    const encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+    const token = await crypto.encryptThenSign(encryptionKey, signingKey, { order: 2 });
+
+    const restored = new CloudlessCrypto();
+    await restored.signer.importProtectedKeyPair(
+      await crypto.signer.exportProtectedKeyPair(signingKey, passphrase, options),
+      passphrase
+    );
+    await restored.encryptor.importProtectedKeyPairForEncryption(
+      await crypto.encryptor.exportProtectedKeyPair(encryptionKey, passphrase, options),
+      passphrase
+    );
+    expect(await restored.verifyThenDecrypt(signingKey, encryptionKey, token)).toMatchObject({
+      order: 2,
+    });
+  });
+
+  it('should reject a private key stored with another key pair', async () => {
+    const crypto = new CloudlessCrypto();
+    const first = (await crypto.generateSigningKeyPair()).key;
+    const second = (await crypto.generateSigningKeyPair()).key;
+    const a = await crypto.signer.exportProtectedKeyPair(first, passphrase, options);
+    const b = await crypto.signer.exportProtectedKeyPair(second, passphrase, options);
+
+    await expect(
+      new CloudlessCrypto().signer.importProtectedKeyPair({ ...a, kid: second }, passphrase)
+    ).rejects.toThrow(`Private key was wrapped for key ${first}`);
+    await expect(
+      new CloudlessCrypto().signer.importProtectedKeyPair(
+        { ...a, publicKey: b.publicKey },
+        passphrase
+      )
+    ).rejects.toThrow(`Private key does not match public key ${first}`);
+  });
+
+  it('should load a key bundle at startup', async () => {
+    const keys = new Map<string, KeyPair>();
+    const crypto = new CloudlessCrypto(keys);
+    const signingKey = (await crypto.generateSigningKeyPair()).key;
+    const encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+    const token = await crypto.encryptThenSign(encryptionKey, signingKey, { order: 3 });
+    const bundle = await exportKeyBundle(keys, passphrase, options);
+    expect(bundle).not.toContain(signingKey);
+
+    const restored = new CloudlessCrypto(await loadKeyBundle(bundle, passphrase));
+    expect(await restored.encryptor.getAvailableKeys()).toEqual([signingKey, encryptionKey]);
+    expect(await restored.verifyThenDecrypt(signingKey, encryptionKey, token)).toMatchObject({
+      order: 3,
+    });
+    await expect(loadKeyBundle(bundle, 'wrong')).rejects.toThrow(
+      'Decryption with passphrase failed'
+    );
+    await expect(
+      exportKeyBundle({ get: () => undefined, set: () => undefined }, passphrase)
+    ).rejects.toThrow('Key store can not list its keys');
+  });
+
+  it('should load a FileKeyStore file as a bundle', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'cloudless-cart-bundle-'));
+    try {
+      const path = join(directory, 'keys.jwe');
+      const crypto = new CloudlessCrypto(new FileKeyStore(path, passphrase, options));
+      const { key } = await crypto.generateSigningKeyPair();
+      const signed = await crypto.signObject(key, { order: 4 });
+
+      const store = await loadKeyBundle(readFileSync(path, 'utf8'), passphrase);
+      const restored = new CloudlessCrypto(store);
+      expect(await restored.verifyObject(signed, key)).toMatchObject({ order: 4 });
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { exportKeyBundle, loadKeyBundle } from '../src/keyBundle';
+import KeyRotation from '../src/keyRotation';
+
+describe('KeyRotation', () => {
+  let crypto: CloudlessCrypto;
+  let rotation: KeyRotation;
+
+  beforeEach(() => {
+    crypto = new CloudlessCrypto();
+    rotation = new KeyRotation(crypto);
+  });
+
+  it('should sign with the active key and verify with retiring ones', async () => {
+    const first = await rotation.rotate('sig');
+    expect(await rotation.activeKey('sig')).toBe(first);
+    const old = await rotation.signObject({ order: 1 });
+
+    const second = await rotation.rotate('sig');
+    expect(await rotation.activeKey('sig')).toBe(second);
+    expect((await rotation.status('sig')).map(status => [status.kid, status.state])).toEqual([
+      [first, 'retiring'],
+      [second, 'active'],
+    ]);
+    await expect(crypto.signObject(first, { order: 2 })).rejects.toThrow(
+      `Key ${first} is retiring`
+    );
+    expect(await rotation.verifyObject(old)).toMatchObject({ order: 1 });
+    expect(await rotation.verifyObject(await rotation.signObject({ order: 2 }))).toMatchObject({
+      order: 2,
+    });
+
+    await rotation.revoke(first);
+    expect((await rotation.verifyObject(old)).error).toBe(`Key ${first} is revoked`);
+    expect(await rotation.prune()).toEqual([first]);
+    expect(await crypto.signer.hasKey(first)).toBe(false);
+  });
+
+  it('should archive a replaced key after the grace window', async () => {
+    rotation = new KeyRotation(crypto, { gracePeriod: 0 });
+    const first = await rotation.rotate('sig');
+    const old = await rotation.signObject({ order: 1 });
+    await rotation.rotate('sig');
+    expect((await rotation.status('sig'))[0]).toMatchObject({ kid: first, state: 'archived' });
+    expect((await rotation.verifyObject(old)).error).toBe(`Key ${first} is archived`);
+    expect(await crypto.signer.verify(old, first, { archived: true })).toMatchObject({
+      order: 1,
+    });
+    await expect(rotation.retire(first)).rejects.toThrow(`Key ${first} is archived`);
+    expect(await rotation.prune()).toEqual([]);
+
+    await rotation.revoke(first);
+    expect((await crypto.signer.verify(old, first, { archived: true })).error).toBe(
+      `Key ${first} is revoked`
+    );
+  });
+
+  it('should schedule an activation', async () => {
+    const current = await rotation.rotate('sig');
+    const activatesAt = Date.now() + 60000;
+    const next = await rotation.rotate('sig', { activatesAt });
+
+    expect(await rotation.activeKey('sig')).toBe(current);
+    await expect(crypto.signObject(next, {})).rejects.toThrow(`Key ${next} is pending`);
+    expect(await rotation.status('sig')).toEqual([
+      expect.objectContaining({ kid: current, state: 'active', retiresAt: activatesAt }),
+      expect.objectContaining({ kid: next, state: 'pending', activatesAt }),
+    ]);
+  });
+
+  it('should rotate encryption keys', async () => {
+    await rotation.rotate('sig');
+    const first = await rotation.rotate('enc');
+    const old = await rotation.encryptThenSign({ order: 1 });
+    await rotation.rotate('enc');
+
+    expect(await rotation.verifyThenDecrypt(old)).toMatchObject({ order: 1 });
+    const current = await rotation.encryptThenSign({ order: 2 });
+    expect(await rotation.verifyThenDecrypt(current)).toMatchObject({ order: 2 });
+
+    await rotation.retire(first, 0);
+    await expect(rotation.verifyThenDecrypt(old)).rejects.toThrow(`Key ${first} is archived`);
+    await expect(rotation.activeKey('sig')).resolves.toBeDefined();
+  });
+
+  it('should keep the rotation state in key bundles', async () => {
+    const first = await rotation.rotate('sig');
+    const second = await rotation.rotate('sig');
+    const bundle = await exportKeyBundle(crypto.keyStore, 'secret', { iterations: 1000 });
+
+    const restored = new KeyRotation(new CloudlessCrypto(await loadKeyBundle(bundle, 'secret')));
+    expect(await restored.activeKey('sig')).toBe(second);
+    expect(await restored.status()).toEqual(await rotation.status());
+    expect((await restored.status()).find(status => status.kid === first)?.state).toBe('retiring');
+  });
+
+  it('should leave keys without a state alone', async () => {
+    const { key } = await crypto.generateSigningKeyPair();
+    await rotation.rotate('sig');
+    expect(await rotation.status()).toHaveLength(1);
+    expect(await crypto.verifyObject(await crypto.signObject(key, { order: 1 }))).toMatchObject({
+      order: 1,
+    });
+  });
+});
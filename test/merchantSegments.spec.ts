@@ -0,0 +1,168 @@
+import stringify from 'fast-json-stable-stringify';
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto, { hashSHA256 } from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+import { openMerchantSegment } from '../src/merchantSegments';
+
+describe('Marketplace carts', () => {
+  let marketplace: CloudlessCrypto;
+  let signingKey: string;
+  let encryptionKey: string;
+  let cart: CloudlessCart;
+  const merchants: Record<string, { crypto: CloudlessCrypto; key: string }> =
+    {};
+  const merchantKeys = () => ({
+    books: merchants.books.key,
+    games: merchants.games.key,
+  });
+  const keysOf = (merchantId: string) => ({
+    signingKey,
+    encryptionKey: merchants[merchantId].key,
+  });
+
+  beforeAll(async () => {
+    marketplace = new CloudlessCrypto();
+    signingKey = (await marketplace.generateSigningKeyPair()).key;
+    encryptionKey = (await marketplace.generateEncryptionKeyPair()).key;
+    for (const merchantId of ['books', 'games']) {
+      const crypto = new CloudlessCrypto();
+      const { key, publicKey } = await crypto.generateEncryptionKeyPair();
+      // The marketplace only holds the public half of merchant keys
+      await marketplace.encryptor.importPublicKeyForEncryption(key, publicKey);
+      await crypto.signer.setPublicKey(
+        signingKey,
+        await marketplace.signer.getPublicKey(signingKey)
+      );
+      merchants[merchantId] = { crypto, key };
+    }
+  });
+
+  beforeEach(() => {
+    cart = new CloudlessCart({
+      signing: { crypto: marketplace, signingKey, encryptionKey },
+    });
+    cart.addItem({ sku: 'novel', unitPrice: 1500, merchantId: 'books' });
+    cart.addItem({ sku: 'chess', unitPrice: 3000, merchantId: 'games' });
+    cart.addItem({ sku: 'atlas', unitPrice: 2500, merchantId: 'books' });
+    cart.addDiscount({ id: 'sale', rate: '0.1' });
+  });
+
+  it('should group lines by merchant', () => {
+    expect(cart.getMerchantIds()).toEqual(['books', 'games']);
+    expect(cart.getMerchantItems('books').map(item => item.sku)).toEqual([
+      'novel',
+      'atlas',
+    ]);
+  });
+
+  it('should let each merchant decrypt only its own segment', async () => {
+    const token = await cart.signedMarketplaceCart(merchantKeys());
+    expect(JSON.stringify(token)).not.toContain('novel');
+
+    const { envelope, segment } = await openMerchantSegment(
+      token,
+      'books',
+      merchants.books.crypto,
+      keysOf('books')
+    );
+    expect(envelope).toMatchObject({ cartId: cart.getCartId(), revision: 1 });
+    expect(segment.items.map(item => item.sku)).toEqual(['novel', 'atlas']);
+    expect(segment).toMatchObject({
+      subtotal: 4000,
+      discount: 400,
+      total: 3600,
+    });
+
+    await expect(
+      openMerchantSegment(token, 'games', merchants.books.crypto, {
+        signingKey,
+        encryptionKey: merchants.books.key,
+      })
+    ).rejects.toThrow('decryption failed');
+  });
+
+  it('should keep amounts and guessable hashes out of the envelope', async () => {
+    const token = await cart.signedMarketplaceCart(merchantKeys());
+    expect(token.payload).not.toHaveProperty('total');
+    expect(token.payload).not.toHaveProperty('cartHash');
+
+    const { envelope, segment } = await openMerchantSegment(
+      token,
+      'books',
+      merchants.books.crypto,
+      keysOf('books')
+    );
+    const { salt, ...unsalted } = segment;
+    expect(salt).toEqual(expect.any(String));
+    expect(envelope.segments[0].hash).not.toBe(
+      await hashSHA256(stringify(unsalted))
+    );
+
+    const again = await cart.signedMarketplaceCart(merchantKeys());
+    expect((again.payload.segments as { hash: string }[])[0].hash).not.toBe(
+      envelope.segments[0].hash
+    );
+  });
+
+  it('should refuse segments moved between envelopes', async () => {
+    const first = await cart.signedMarketplaceCart(merchantKeys());
+    cart.updateQuantity('chess', 2);
+    const second = await cart.signedMarketplaceCart(merchantKeys());
+    const segments = (second.payload.segments as { token: string }[]).map(
+      (segment, index) => ({
+        ...segment,
+        token: (first.payload.segments as { token: string }[])[index].token,
+      })
+    );
+    const tampered: SignedObject = {
+      ...second,
+      payload: { ...second.payload, segments },
+    };
+    await expect(
+      openMerchantSegment(
+        tampered,
+        'games',
+        merchants.games.crypto,
+        keysOf('games')
+      )
+    ).rejects.toThrow('verification failed');
+  });
+
+  it('should restore the whole cart for the marketplace', async () => {
+    const token = await cart.signedMarketplaceCart(merchantKeys());
+    const restored = await CloudlessCart.fromMarketplaceToken(token, {
+      crypto: marketplace,
+      signingKey,
+      encryptionKey,
+    });
+    expect(restored.getRevision()).toBe(1);
+    expect(restored.getTotals()).toEqual(cart.getTotals());
+  });
+
+  it('should bind the marketplace copy to the merchant segments', async () => {
+    const config = { crypto: marketplace, signingKey, encryptionKey };
+    const first = await cart.signedMarketplaceCart(merchantKeys());
+    cart.updateQuantity('chess', 2);
+    const second = await cart.signedMarketplaceCart(merchantKeys());
+    // Signed with the marketplace key, but with the copy of another revision
+    const forged = await marketplace.signObject(signingKey, {
+      ...second.payload,
+      revision: 1,
+      cart: first.payload.cart,
+    });
+    await expect(
+      CloudlessCart.fromMarketplaceToken(forged as SignedObject, config)
+    ).rejects.toThrow('Marketplace cart does not match its merchant segments');
+  });
+
+  it('should require a merchant and key for every line', async () => {
+    cart.addItem({ sku: 'pen', unitPrice: 100 });
+    await expect(cart.signedMarketplaceCart(merchantKeys())).rejects.toThrow(
+      'Line item pen has no merchant'
+    );
+    cart.removeItem('pen');
+    await expect(
+      cart.signedMarketplaceCart({ books: merchants.books.key })
+    ).rejects.toThrow('No encryption key for merchant games');
+  });
+});
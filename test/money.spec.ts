@@ -0,0 +1,86 @@
+import {
+  addMoney,
+  allocate,
+  createMoney,
+  formatMoney,
+  fromMinorUnits,
+  getCurrencyExponent,
+  multiplyByRate,
+  roundDivide,
+  toMinorUnits,
+} from '../src/money';
+
+describe('money', () => {
+  describe('currencies', () => {
+    it('should know minor unit exponents', () => {
+      expect(getCurrencyExponent('USD')).toBe(2);
+      expect(getCurrencyExponent('JPY')).toBe(0);
+      expect(getCurrencyExponent('KWD')).toBe(3);
+    });
+
+    it('should reject invalid currency codes', () => {
+      expect(() => getCurrencyExponent('dollars')).toThrow('Invalid currency code');
+    });
+  });
+
+  describe('conversion', () => {
+    it('should convert decimal strings to minor units exactly', () => {
+      expect(toMinorUnits('19.99', 'USD')).toBe(1999);
+      expect(toMinorUnits('0.1', 'USD')).toBe(10);
+      expect(toMinorUnits(38.97, 'USD')).toBe(3897);
+      expect(toMinorUnits('1200', 'JPY')).toBe(1200);
+      expect(toMinorUnits('1.2345', 'KWD')).toBe(1234);
+      expect(toMinorUnits('1.2345', 'KWD', 'half-up')).toBe(1235);
+    });
+
+    it('should format minor units as decimal strings', () => {
+      expect(fromMinorUnits(1999, 'USD')).toBe('19.99');
+      expect(fromMinorUnits(5, 'USD')).toBe('0.05');
+      expect(fromMinorUnits(-5, 'USD')).toBe('-0.05');
+      expect(fromMinorUnits(1200, 'JPY')).toBe('1200');
+      expect(formatMoney(createMoney(4209, 'EUR'))).toBe('42.09 EUR');
+    });
+
+    it('should refuse fractional minor units', () => {
+      expect(() => createMoney(10.5, 'USD')).toThrow('minor units');
+    });
+
+    it('should refuse to add different currencies', () => {
+      expect(() => addMoney(createMoney(1, 'USD'), createMoney(1, 'EUR'))).toThrow(
+        'Currency mismatch'
+      );
+      expect(addMoney(createMoney(1, 'USD'), createMoney(2, 'USD')).amount).toBe(3);
+    });
+  });
+
+  describe('rounding', () => {
+    it.each([
+      ['half-even', 25, 2],
+      ['half-even', 35, 4],
+      ['half-up', 25, 3],
+      ['half-down', 25, 2],
+      ['up', 21, 3],
+      ['down', 29, 2],
+    ] as const)('should round %s', (mode, numerator, expected) => {
+      expect(roundDivide(numerator, 10, mode)).toBe(expected);
+    });
+
+    it('should round negative values symmetrically', () => {
+      expect(roundDivide(-25, 10, 'half-up')).toBe(-3);
+    });
+
+    it('should apply decimal rates', () => {
+      expect(multiplyByRate(3897, '0.08')).toBe(312);
+      expect(multiplyByRate(1000, '0.0825')).toBe(82);
+      expect(multiplyByRate(1000, '0.0825', 'up')).toBe(83);
+    });
+  });
+
+  describe('allocation', () => {
+    it('should never lose or create minor units', () => {
+      expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+      expect(allocate(5, [3, 7])).toEqual([2, 3]);
+      expect(allocate(0, [])).toEqual([]);
+    });
+  });
+});
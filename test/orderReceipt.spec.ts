@@ -0,0 +1,109 @@
+import CloudlessCart, { CartPayload, hashCartPayload } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import JsonSignature from '../src/jsonSignature';
+import KeyRotation from '../src/keyRotation';
+import OrderReceipts, { ReceiptKeyPeriod } from '../src/orderReceipt';
+
+describe('OrderReceipts', () => {
+  const payment = { provider: 'stripe', reference: 'ch_123' };
+  let merchant: OrderReceipts;
+  let merchantSigner: JsonSignature;
+  let oldKey: string;
+  let payload: CartPayload;
+
+  beforeEach(async () => {
+    merchantSigner = new JsonSignature();
+    merchant = new OrderReceipts(merchantSigner);
+    oldKey = (await merchantSigner.generateKeyPair()).key;
+    const cart = new CloudlessCart();
+    cart.addItem({ sku: 'kettle', name: 'Kettle', unitPrice: 3999, options: { color: 'red' } });
+    cart.addDiscount({ id: 'welcome', amount: 500 });
+    payload = cart.toPayload();
+  });
+
+  it('should record the purchased lines, totals and payment', async () => {
+    const receipt = await merchant.issueReceipt(oldKey, payload, {
+      payment,
+      orderId: 'order-1',
+      issuedAt: 1000,
+    });
+    expect(receipt.payload).toMatchObject({
+      type: 'order-receipt',
+      orderId: 'order-1',
+      cartId: payload.cartId,
+      cartHash: await hashCartPayload(payload),
+      lines: [
+        { sku: 'kettle', name: 'Kettle', options: { color: 'red' }, quantity: 1, unitPrice: 3999 },
+      ],
+      totals: { total: 3499 },
+      payment,
+      issuedAt: 1000,
+    });
+    const check = await merchant.verifyReceipt(receipt, [{ kid: oldKey }]);
+    expect(check.valid).toBe(true);
+    expect(check.claims?.receiptId).toEqual(expect.any(String));
+  });
+
+  it('should verify receipts of retired keys after rotation', async () => {
+    const old = await merchant.issueReceipt(oldKey, payload, { payment, issuedAt: 1000 });
+    const newKey = (await merchantSigner.generateKeyPair()).key;
+    const fresh = await merchant.issueReceipt(newKey, payload, { payment, issuedAt: 3000 });
+
+    // A verifier that only has the public keys, e.g. at a repair shop
+    const verifier = new JsonSignature();
+    await verifier.setPublicKey(oldKey, await merchantSigner.getPublicKey(oldKey));
+    await verifier.setPublicKey(newKey, await merchantSigner.getPublicKey(newKey));
+    const receipts = new OrderReceipts(verifier);
+    const keys: ReceiptKeyPeriod[] = [
+      { kid: oldKey, until: 2000 },
+      { kid: newKey, from: 2000 },
+    ];
+    expect((await receipts.verifyReceipt(old, keys)).valid).toBe(true);
+    expect((await receipts.verifyReceipt(fresh, keys)).valid).toBe(true);
+
+    // The retired key must not sign new receipts
+    const late = await merchant.issueReceipt(oldKey, payload, { payment, issuedAt: 2500 });
+    const check = await receipts.verifyReceipt(late, keys);
+    expect(check.error).toBe(`Receipt was issued outside the period of key ${oldKey}`);
+  });
+
+  it('should verify receipts of an archived key it opts in to', async () => {
+    const crypto = new CloudlessCrypto();
+    const rotation = new KeyRotation(crypto, { gracePeriod: 0 });
+    const receipts = new OrderReceipts(crypto.signer);
+    const rotatedKey = await rotation.rotate('sig');
+    const old = await receipts.issueReceipt(rotatedKey, payload, { payment, issuedAt: 1000 });
+    const newKey = await rotation.rotate('sig');
+
+    expect((await rotation.status('sig'))[0]).toMatchObject({ kid: rotatedKey, state: 'archived' });
+    const keys: ReceiptKeyPeriod[] = [
+      { kid: rotatedKey, until: 2000 },
+      { kid: newKey, from: 2000 },
+    ];
+    expect(await receipts.verifyReceipt(old, keys)).toEqual({
+      valid: false,
+      error: `Key ${rotatedKey} is archived`,
+    });
+    keys[0].archived = true;
+    expect(await receipts.verifyReceipt(old, keys)).toMatchObject({ valid: true });
+    await expect(
+      receipts.issueReceipt(rotatedKey, payload, { payment })
+    ).rejects.toThrow(`Key ${rotatedKey} is archived`);
+  });
+
+  it('should reject unknown keys and tampered receipts', async () => {
+    const receipt = await merchant.issueReceipt(oldKey, payload, { payment });
+    expect((await merchant.verifyReceipt(receipt, [])).error).toBe(`Receipt key ${oldKey} is not trusted`);
+    const tampered = {
+      ...receipt,
+      payload: { ...receipt.payload, payment: { ...payment, reference: 'ch_999' } },
+    };
+    expect((await merchant.verifyReceipt(tampered, [{ kid: oldKey }])).valid).toBe(false);
+  });
+
+  it('should require a payment reference', async () => {
+    await expect(
+      merchant.issueReceipt(oldKey, payload, { payment: { provider: 'stripe', reference: '' } })
+    ).rejects.toThrow('needs a provider and reference');
+  });
+});
@@ -0,0 +1,94 @@
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import JsonSignature, { SignedObject } from '../src/jsonSignature';
+import PriceAttestor from '../src/priceAttestation';
+import PriceVerifier, { StaticPriceCatalog } from '../src/priceVerifier';
+
+describe('PriceAttestor', () => {
+  let merchant: JsonSignature;
+  let merchantKey: string;
+  let attestor: PriceAttestor;
+
+  beforeEach(async () => {
+    merchant = new JsonSignature();
+    merchantKey = (await merchant.generateKeyPair()).key;
+    attestor = new PriceAttestor(merchant);
+  });
+
+  it('should issue and verify an attestation', async () => {
+    const attestation = await attestor.attest(merchantKey, {
+      sku: 'book',
+      unitPrice: 2999,
+      currency: 'USD',
+    });
+    const check = await attestor.verifyAttestation(attestation, [merchantKey]);
+    expect(check.valid).toBe(true);
+    expect(check.claims).toMatchObject({ type: 'price-attestation', sku: 'book', unitPrice: 2999 });
+  });
+
+  it('should reject untrusted keys and expired attestations', async () => {
+    const otherKey = (await merchant.generateKeyPair()).key;
+    const attestation = await attestor.attest(otherKey, {
+      sku: 'book',
+      unitPrice: 2999,
+      currency: 'USD',
+      validFrom: 1000,
+      validUntil: 2000,
+    });
+    expect((await attestor.verifyAttestation(attestation, [merchantKey])).error).toContain(
+      'is not trusted'
+    );
+    expect((await attestor.verifyAttestation(attestation, [otherKey], 3000)).error).toBe(
+      'Attestation has expired'
+    );
+    expect((await attestor.verifyAttestation(attestation, [otherKey], 1500)).valid).toBe(true);
+  });
+
+  it('should check every line of a cart', async () => {
+    const cart = new CloudlessCart();
+    cart.addItem({
+      sku: 'book',
+      unitPrice: 2999,
+      attestation: await attestor.attest(merchantKey, { sku: 'book', unitPrice: 2999, currency: 'USD' }),
+    });
+    cart.addItem({
+      sku: 'pen',
+      unitPrice: 1,
+      attestation: await attestor.attest(merchantKey, { sku: 'pen', unitPrice: 299, currency: 'USD' }),
+    });
+    cart.addItem({ sku: 'mug', unitPrice: 999 });
+    const result = await attestor.verifyCartAttestations(cart.toPayload(), {
+      trustedKeys: [merchantKey],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.lines.map(line => line.error)).toEqual([
+      undefined,
+      'Attested price 299 does not match 1',
+      'Missing price attestation',
+    ]);
+  });
+
+  it('should be enforced by the price verifier', async () => {
+    const crypto = new CloudlessCrypto();
+    const catalog = new StaticPriceCatalog({ book: 2999 });
+    const cart = new CloudlessCart();
+    cart.setSigning({ crypto, signingKey: (await crypto.generateSigningKeyPair()).key });
+    cart.addItem({ sku: 'book', unitPrice: 2999 });
+    const signed = (await cart.signedCart()) as SignedObject;
+    const verifier = new PriceVerifier(crypto, catalog, {
+      attestations: { attestor, trustedKeys: [merchantKey] },
+    });
+    const rejected = await verifier.verifySignedCart(signed);
+    expect(rejected.decision).toBe('reject');
+    expect(rejected.errors).toEqual(['Line book: Missing price attestation']);
+
+    cart.addItem({
+      sku: 'book',
+      unitPrice: 2999,
+      attestation: await attestor.attest(merchantKey, { sku: 'book', unitPrice: 2999, currency: 'USD' }),
+    });
+    const accepted = await verifier.verifySignedCart((await cart.signedCart()) as SignedObject);
+    expect(accepted.decision).toBe('accept');
+    expect(accepted.attestations?.valid).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+import PriceVerifier, { StaticPriceCatalog } from '../src/priceVerifier';
+
+describe('PriceVerifier', () => {
+  let crypto: CloudlessCrypto;
+  let catalog: StaticPriceCatalog;
+  let verifier: PriceVerifier;
+  let cart: CloudlessCart;
+
+  beforeEach(async () => {
+    crypto = new CloudlessCrypto();
+    catalog = new StaticPriceCatalog({ book: 2999, pen: 299 });
+    verifier = new PriceVerifier(crypto, catalog);
+    cart = new CloudlessCart({ taxRate: '0.08' });
+    cart.setSigning({ crypto, signingKey: (await crypto.generateSigningKeyPair()).key });
+    cart.addItem({ sku: 'book', unitPrice: 2999 });
+    cart.addItem({ sku: 'pen', unitPrice: 299, quantity: 3 });
+  });
+
+  it('should accept a cart whose prices are current', async () => {
+    const signed = (await cart.signedCart()) as SignedObject;
+    const result = await verifier.verifySignedCart(signed);
+    expect(result.decision).toBe('accept');
+    expect(result.signatureValid).toBe(true);
+    expect(result.totalDifference).toBe(0);
+  });
+
+  it('should request a requote when prices drift', async () => {
+    const signed = (await cart.signedCart()) as SignedObject;
+    catalog.setPrice('pen', 349);
+    const result = await verifier.verifySignedCart(signed);
+    expect(result.decision).toBe('requote');
+    expect(result.priceDrift).toEqual([
+      { sku: 'pen', signedUnitPrice: 299, currentUnitPrice: 349, difference: 50 },
+    ]);
+    expect(result.totalDifference).toBe(162);
+  });
+
+  it('should accept drift within tolerance', async () => {
+    const signed = (await cart.signedCart()) as SignedObject;
+    catalog.setPrice('pen', 300);
+    verifier = new PriceVerifier(crypto, catalog, { tolerance: 1 });
+    const result = await verifier.verifySignedCart(signed);
+    expect(result.decision).toBe('accept');
+    expect(result.priceDrift).toHaveLength(1);
+  });
+
+  it('should report removed skus', async () => {
+    const signed = (await cart.signedCart()) as SignedObject;
+    catalog.removePrice('book');
+    const result = await verifier.verifySignedCart(signed);
+    expect(result.decision).toBe('requote');
+    expect(result.removed).toEqual([{ sku: 'book' }]);
+    expect(result.currentTotals?.lines).toHaveLength(1);
+  });
+
+  it('should reject tampered carts', async () => {
+    const signed = (await cart.signedCart()) as SignedObject;
+    (signed.payload.items as { unitPrice: number }[])[1].unitPrice = 1;
+    const result = await verifier.verifySignedCart(signed);
+    expect(result.decision).toBe('reject');
+    expect(result.signatureValid).toBe(false);
+  });
+
+  it('should reject signed totals that do not match the lines', async () => {
+    const payload = cart.toPayload();
+    payload.totals.total = 1;
+    const result = await verifier.checkPrices(payload as unknown as Record<string, unknown>);
+    expect(result.decision).toBe('reject');
+    expect(result.totalsMismatch).toBe(true);
+  });
+
+  it('should reject payloads that are not carts', async () => {
+    const result = await verifier.checkPrices({ hello: 'world' });
+    expect(result.decision).toBe('reject');
+    expect(result.errors[0]).toContain('Unsupported cart payload version');
+  });
+
+  it('should verify encrypt-then-sign carts', async () => {
+    const signingKey = (await crypto.generateSigningKeyPair()).key;
+    const encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+    const token = await crypto.encryptThenSign(
+      encryptionKey,
+      signingKey,
+      cart.toPayload() as unknown as Record<string, unknown>
+    );
+    const result = await verifier.verifyEncryptedCart(signingKey, encryptionKey, token);
+    expect(result.decision).toBe('accept');
+  });
+});
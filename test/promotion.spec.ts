@@ -0,0 +1,171 @@
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import JsonSignature, { SignedObject } from '../src/jsonSignature';
+import PriceVerifier, { StaticPriceCatalog } from '../src/priceVerifier';
+import PromotionEngine, { CouponRequest } from '../src/promotion';
+
+describe('PromotionEngine', () => {
+  let signer: JsonSignature;
+  let engine: PromotionEngine;
+  let merchantKey: string;
+  let cart: CloudlessCart;
+  const trusted = () => ({ trustedKeys: [merchantKey] });
+  const issue = (request: CouponRequest) => engine.issueCoupon(merchantKey, request);
+
+  beforeEach(async () => {
+    signer = new JsonSignature();
+    engine = new PromotionEngine(signer);
+    merchantKey = (await signer.generateKeyPair()).key;
+    cart = new CloudlessCart();
+    cart.addItem({ sku: 'pen', unitPrice: 300, quantity: 3, category: 'stationery' });
+    cart.addItem({ sku: 'pad', unitPrice: 500, category: 'stationery' });
+    cart.addItem({ sku: 'mug', unitPrice: 1200, category: 'kitchen' });
+  });
+
+  describe('rules', () => {
+    it('should apply a percent coupon scoped to a category', async () => {
+      const coupon = await issue({
+        code: 'PAPER10',
+        rule: { kind: 'percent', rate: '0.1' },
+        categories: ['stationery'],
+      });
+      const result = await cart.applyCoupon(coupon, engine, trusted());
+      expect(result.discounts).toEqual([
+        { id: 'coupon:PAPER10', rate: '0.1', skus: ['pen', 'pad'], coupon },
+      ]);
+      expect(cart.getTotals().discount).toBe(140);
+    });
+
+    it('should apply a fixed coupon above a minimum spend', async () => {
+      const coupon = await issue({
+        code: 'FIVE',
+        rule: { kind: 'fixed', amount: 500 },
+        currency: 'USD',
+        minSpend: 3000,
+      });
+      await expect(cart.applyCoupon(coupon, engine, trusted())).rejects.toThrow(
+        'needs a subtotal of at least 3000'
+      );
+      cart.updateQuantity('mug', 2);
+      await cart.applyCoupon(coupon, engine, trusted());
+      expect(cart.getTotals().discount).toBe(500);
+    });
+
+    it('should discount the cheapest units for buy-x-get-y', async () => {
+      const coupon = await issue({
+        code: 'B2G1',
+        rule: { kind: 'buy-x-get-y', buy: 2, get: 1 },
+        skus: ['pen', 'pad'],
+      });
+      await cart.applyCoupon(coupon, engine, trusted());
+      expect(cart.getTotals().discount).toBe(300);
+      cart.updateQuantity('pen', 5);
+      const refreshed = await cart.refreshCoupons(engine, trusted());
+      expect(refreshed.discounts[0].amount).toBe(600);
+      expect(cart.getTotals().discount).toBe(600);
+    });
+
+    it('should refuse rates outside (0, 1] when issuing', async () => {
+      for (const rate of ['0', '1.5']) {
+        await expect(issue({ code: 'BAD', rule: { kind: 'percent', rate } })).rejects.toThrow(
+          'Percent coupon rate must be above 0 and at most 1'
+        );
+        await expect(
+          issue({ code: 'BAD', rule: { kind: 'buy-x-get-y', buy: 1, get: 1, rate } })
+        ).rejects.toThrow('Buy-x-get-y coupon rate must be above 0 and at most 1');
+      }
+      await expect(issue({ code: 'ALL', rule: { kind: 'percent', rate: '1.00' } })).resolves.toBeDefined();
+      await expect(
+        issue({ code: 'HALF', rule: { kind: 'buy-x-get-y', buy: 1, get: 1, rate: '0.5' } })
+      ).resolves.toBeDefined();
+    });
+
+    it('should flag free shipping', async () => {
+      const coupon = await issue({ code: 'SHIPFREE', rule: { kind: 'free-shipping' } });
+      const result = await cart.applyCoupon(coupon, engine, trusted());
+      expect(result.freeShipping).toBe(true);
+      expect(cart.getTotals().discount).toBe(0);
+    });
+  });
+
+  describe('stacking', () => {
+    it('should combine stackable coupons only', async () => {
+      const percent = await issue({
+        code: 'TEN',
+        rule: { kind: 'percent', rate: '0.1' },
+        stacking: 'stackable',
+      });
+      const shipping = await issue({
+        code: 'SHIP',
+        rule: { kind: 'free-shipping' },
+        stacking: 'stackable',
+      });
+      const exclusive = await issue({ code: 'BIG', rule: { kind: 'percent', rate: '0.5' } });
+      await cart.applyCoupon(percent, engine, trusted());
+      await cart.applyCoupon(shipping, engine, trusted());
+      expect(cart.getDiscounts().map(discount => discount.id)).toEqual([
+        'coupon:TEN',
+        'coupon:SHIP',
+      ]);
+      await expect(cart.applyCoupon(exclusive, engine, trusted())).rejects.toThrow(
+        'cannot be combined'
+      );
+      await expect(cart.applyCoupon(percent, engine, trusted())).rejects.toThrow(
+        'already applied'
+      );
+      expect(cart.removeCoupon('TEN')).toBe(true);
+      expect(cart.getDiscounts()).toHaveLength(1);
+    });
+  });
+
+  describe('verification', () => {
+    it('should refuse untrusted and expired coupons', async () => {
+      const rogue = new JsonSignature();
+      const forged = await new PromotionEngine(rogue).issueCoupon(
+        (await rogue.generateKeyPair()).key,
+        { code: 'FREE', rule: { kind: 'percent', rate: '1' } }
+      );
+      await expect(cart.applyCoupon(forged, engine, trusted())).rejects.toThrow('not trusted');
+
+      const expired = await issue({
+        code: 'OLD',
+        rule: { kind: 'percent', rate: '0.1' },
+        validFrom: 1000,
+        validUntil: 2000,
+      });
+      await expect(cart.applyCoupon(expired, engine, trusted())).rejects.toThrow('expired');
+    });
+
+    it('should re-evaluate coupon discounts from a signed cart', async () => {
+      const crypto = new CloudlessCrypto();
+      cart.setSigning({ crypto, signingKey: (await crypto.generateSigningKeyPair()).key });
+      const coupon = await issue({
+        code: 'B2G1',
+        rule: { kind: 'buy-x-get-y', buy: 2, get: 1 },
+        skus: ['pen'],
+      });
+      await cart.applyCoupon(coupon, engine, trusted());
+      const catalog = new StaticPriceCatalog({ pen: 300, pad: 500, mug: 1200 });
+      const verifier = new PriceVerifier(crypto, catalog, {
+        promotions: { engine, ...trusted() },
+      });
+      const signed = (await cart.signedCart()) as SignedObject;
+      const result = await verifier.verifySignedCart(signed);
+      expect(result.decision).toBe('accept');
+      expect(result.promotions?.valid).toBe(true);
+
+      // The discount is stale once the qualifying quantity drops
+      cart.updateQuantity('pen', 2);
+      const stale = await verifier.verifySignedCart((await cart.signedCart()) as SignedObject);
+      expect(stale.decision).toBe('reject');
+      expect(stale.errors).toContain('Coupon B2G1 needs 3 eligible items');
+    });
+
+    it('should reject coupon discounts without a coupon token', async () => {
+      cart.addDiscount({ id: 'coupon:FAKE', rate: '0.5' });
+      const check = await engine.verifyCartPromotions(cart.toPayload(), trusted());
+      expect(check.valid).toBe(false);
+      expect(check.errors).toEqual(['Discount coupon:FAKE has no coupon']);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import CloudlessCart from '../src/cloudlessCart';
+import JsonSignature from '../src/jsonSignature';
+import PromotionEngine from '../src/promotion';
+import {
+  FileRedemptionLedger,
+  InMemoryRedemptionLedger,
+  RedemptionLedger,
+} from '../src/redemptionLedger';
+
+describe('redemption ledgers', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cloudless-cart-ledger-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const ledgers: [string, () => RedemptionLedger][] = [
+    ['InMemoryRedemptionLedger', () => new InMemoryRedemptionLedger()],
+    [
+      'FileRedemptionLedger',
+      () => new FileRedemptionLedger(join(directory, `${Math.random()}.json`)),
+    ],
+  ];
+
+  describe.each(ledgers)('%s', (_name, createLedger) => {
+    let ledger: RedemptionLedger;
+    const redemption = (customerId?: string) => ({
+      jti: 'coupon-1',
+      code: 'SAVE',
+      customerId,
+      redeemedAt: 1000,
+    });
+
+    beforeEach(() => {
+      ledger = createLedger();
+    });
+
+    it('should refuse a second use of a single-use coupon', async () => {
+      expect(await ledger.redeem(redemption('alice'), { maxRedemptions: 1 })).toEqual({
+        valid: true,
+      });
+      expect(await ledger.redeem(redemption('bob'), { maxRedemptions: 1 })).toEqual({
+        valid: false,
+        error: 'Coupon SAVE has already been redeemed',
+      });
+      expect(await ledger.getRedemptions('coupon-1')).toHaveLength(1);
+    });
+
+    it('should enforce per-customer limits', async () => {
+      const limits = { perCustomer: 2 };
+      expect((await ledger.redeem(redemption('alice'), limits)).valid).toBe(true);
+      expect((await ledger.redeem(redemption('alice'), limits)).valid).toBe(true);
+      expect((await ledger.redeem(redemption('bob'), limits)).valid).toBe(true);
+      expect(await ledger.redeem(redemption('alice'), limits)).toEqual({
+        valid: false,
+        error: 'Coupon SAVE has reached its limit for customer alice',
+      });
+      expect(await ledger.redeem(redemption(), limits)).toEqual({
+        valid: false,
+        error: 'Coupon SAVE requires a customer',
+      });
+    });
+
+    it('should record a batch only if every redemption passes', async () => {
+      const other = { ...redemption('alice'), jti: 'coupon-2', code: 'MORE' };
+      expect(await ledger.redeem(other, { maxRedemptions: 1 })).toEqual({ valid: true });
+      const checks = await ledger.redeemAll([
+        { redemption: redemption('alice'), limits: { maxRedemptions: 1 } },
+        { redemption: other, limits: { maxRedemptions: 1 } },
+      ]);
+      expect(checks).toEqual([
+        { valid: true },
+        { valid: false, error: 'Coupon MORE has already been redeemed' },
+      ]);
+      expect(await ledger.getRedemptions('coupon-1')).toEqual([]);
+
+      const twice = await ledger.redeemAll([
+        { redemption: redemption('alice'), limits: { perCustomer: 1 } },
+        { redemption: redemption('alice'), limits: { perCustomer: 1 } },
+      ]);
+      expect(twice.map(check => check.valid)).toEqual([true, false]);
+      expect(await ledger.getRedemptions('coupon-1')).toEqual([]);
+    });
+
+    it('should serialize concurrent redemptions', async () => {
+      const results = await Promise.all(
+        [1, 2, 3].map(() => ledger.redeem(redemption('alice'), { maxRedemptions: 1 }))
+      );
+      expect(results.filter(result => result.valid)).toHaveLength(1);
+    });
+  });
+
+  it('should persist redemptions in the file', async () => {
+    const path = join(directory, 'persisted.json');
+    await new FileRedemptionLedger(path).redeem(
+      { jti: 'coupon-2', code: 'ONCE', redeemedAt: 1000 },
+      { maxRedemptions: 1 }
+    );
+    expect(await new FileRedemptionLedger(path).getRedemptions('coupon-2')).toEqual([
+      { jti: 'coupon-2', code: 'ONCE', redeemedAt: 1000 },
+    ]);
+  });
+
+  describe('coupon redemption', () => {
+    let engine: PromotionEngine;
+    let merchantKey: string;
+    let ledger: InMemoryRedemptionLedger;
+    let cart: CloudlessCart;
+
+    beforeEach(async () => {
+      const signer = new JsonSignature();
+      engine = new PromotionEngine(signer);
+      merchantKey = (await signer.generateKeyPair()).key;
+      ledger = new InMemoryRedemptionLedger();
+      cart = new CloudlessCart();
+      cart.addItem({ sku: 'pen', unitPrice: 300, quantity: 2 });
+    });
+
+    it('should reject a replayed single-use coupon', async () => {
+      const coupon = await engine.issueCoupon(merchantKey, {
+        code: 'WELCOME',
+        rule: { kind: 'percent', rate: '0.1' },
+      });
+      expect(coupon.payload.jti).toEqual(expect.any(String));
+      const options = { trustedKeys: [merchantKey], ledger, customerId: 'alice' };
+      await cart.applyCoupon(coupon, engine, options);
+
+      const redeemed = await engine.redeemCartCoupons(cart.toPayload(), options);
+      expect(redeemed.valid).toBe(true);
+      expect(redeemed.redemptions).toEqual([
+        expect.objectContaining({ code: 'WELCOME', customerId: 'alice', cartId: cart.getCartId() }),
+      ]);
+
+      const replay = await engine.redeemCartCoupons(cart.toPayload(), options);
+      expect(replay).toEqual({
+        valid: false,
+        errors: ['Coupon WELCOME has already been redeemed'],
+        redemptions: [],
+      });
+      const other = new CloudlessCart();
+      other.addItem({ sku: 'pen', unitPrice: 300 });
+      await expect(other.applyCoupon(coupon, engine, options)).rejects.toThrow(
+        'already been redeemed'
+      );
+    });
+
+    it('should redeem none of the coupons when one is used up', async () => {
+      const welcome = await engine.issueCoupon(merchantKey, {
+        code: 'WELCOME',
+        rule: { kind: 'percent', rate: '0.1' },
+        stacking: 'stackable',
+      });
+      const extra = await engine.issueCoupon(merchantKey, {
+        code: 'EXTRA',
+        rule: { kind: 'fixed', amount: 50 },
+        currency: 'USD',
+        stacking: 'stackable',
+      });
+      const options = { trustedKeys: [merchantKey], ledger, customerId: 'alice' };
+      await cart.applyCoupon(welcome, engine, options);
+      await cart.applyCoupon(extra, engine, options);
+
+      // Another checkout redeems EXTRA after the cart was verified
+      const racing: RedemptionLedger = {
+        getRedemptions: jti => ledger.getRedemptions(jti),
+        redeem: (redemption, limits) => ledger.redeem(redemption, limits),
+        redeemAll: async requests => {
+          await ledger.redeem({ ...requests[1].redemption, customerId: 'bob' }, requests[1].limits);
+          return await ledger.redeemAll(requests);
+        },
+      };
+      const redeemed = await engine.redeemCartCoupons(cart.toPayload(), {
+        ...options,
+        ledger: racing,
+      });
+      expect(redeemed).toEqual({
+        valid: false,
+        errors: ['Coupon EXTRA has already been redeemed'],
+        redemptions: [],
+      });
+      expect(await ledger.getRedemptions(welcome.payload.jti as string)).toEqual([]);
+    });
+
+    it('should allow shared codes within the per-customer limit', async () => {
+      const coupon = await engine.issueCoupon(merchantKey, {
+        code: 'SPRING',
+        rule: { kind: 'percent', rate: '0.1' },
+        maxRedemptions: 'unlimited',
+        perCustomer: 1,
+      });
+      expect(coupon.payload).not.toHaveProperty('maxRedemptions');
+      await cart.applyCoupon(coupon, engine, { trustedKeys: [merchantKey] });
+      const payload = cart.toPayload();
+      const redeem = (customerId: string) =>
+        engine.redeemCartCoupons(payload, { trustedKeys: [merchantKey], ledger, customerId });
+      expect((await redeem('alice')).valid).toBe(true);
+      expect((await redeem('bob')).valid).toBe(true);
+      expect((await redeem('alice')).errors).toEqual([
+        'Coupon SPRING has reached its limit for customer alice',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import CloudlessCart, { CartPayload } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { cartPayloadSchema } from '../src/cartSchema';
+import { collectionPayloadSchema, verifySharedCollection } from '../src/itemCollections';
+import { assertSchema, schema, validateSchema } from '../src/schema';
+
+describe('schema', () => {
+  const lineSchema = schema.object(
+    {
+      sku: schema.string({ minLength: 1 }),
+      quantity: schema.integer({ min: 1 }),
+      note: schema.optional(schema.string()),
+    },
+    { additional: false }
+  );
+  const orderSchema = schema.object({
+    orderId: schema.string({ minLength: 1 }),
+    items: schema.array(lineSchema),
+  });
+
+  it('should report every problem with its path', () => {
+    const result = validateSchema(orderSchema, {
+      items: [
+        { sku: 'a', quantity: 1 },
+        { sku: '', quantity: 1 },
+        { sku: 'c', quantity: 0, gift: true },
+      ],
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'orderId is required',
+        'items[1].sku must be a non-empty string',
+        'items[2].quantity must be a positive integer',
+        'items[2].gift is not allowed',
+      ],
+    });
+    expect(validateSchema(orderSchema, { orderId: 'o', items: [] }).valid).toBe(true);
+  });
+
+  it('should prefix messages with a label when asserting', () => {
+    expect(() => assertSchema(schema.array(lineSchema), 'nope', 'Lines')).toThrow(
+      'Lines must be an array'
+    );
+    expect(() => assertSchema(schema.integer({ min: 0 }), 1.5)).toThrow(
+      'value must be a non-negative integer'
+    );
+  });
+
+  describe('CloudlessCrypto enforcement', () => {
+    let crypto: CloudlessCrypto;
+    let signingKey: string;
+    let encryptionKey: string;
+
+    beforeEach(async () => {
+      crypto = new CloudlessCrypto();
+      signingKey = (await crypto.generateSigningKeyPair()).key;
+      encryptionKey = (await crypto.generateEncryptionKeyPair()).key;
+    });
+
+    it('should refuse to sign payloads that do not match', async () => {
+      crypto.setSchema(orderSchema);
+      const bad = { orderId: 'o-1', items: [{ sku: 'a', quantity: -1 }] };
+      await expect(crypto.signObject(signingKey, bad)).rejects.toThrow(
+        'Payload items[0].quantity must be a positive integer'
+      );
+      await expect(crypto.signAndEncrypt(signingKey, encryptionKey, bad)).rejects.toThrow(
+        'must be a positive integer'
+      );
+      await expect(crypto.encryptThenSign(encryptionKey, signingKey, bad)).rejects.toThrow(
+        'must be a positive integer'
+      );
+    });
+
+    it('should reject verified payloads that do not match', async () => {
+      const signed = await crypto.signObject(signingKey, { orderId: 'o-1', items: 'none' });
+      const encrypted = await crypto.encryptThenSign(encryptionKey, signingKey, { orderId: '' });
+      crypto.setSchema(orderSchema);
+      expect(await crypto.verifyObject(signed, signingKey)).toEqual({
+        error: 'Payload items must be an array',
+      });
+      await expect(crypto.verifyThenDecrypt(signingKey, encryptionKey, encrypted)).rejects.toThrow(
+        'Payload orderId must be a non-empty string; Payload items is required'
+      );
+
+      crypto.setSchema();
+      expect(await crypto.verifyObject(signed, signingKey)).toMatchObject({ orderId: 'o-1' });
+    });
+
+    it('should check typed payloads against the schema of their type', async () => {
+      crypto.setSchema(orderSchema);
+      crypto.setSchema(collectionPayloadSchema, 'item-collection');
+      const coupon = await crypto.signObject(signingKey, { type: 'coupon', code: 'X' });
+      expect(await crypto.verifyObject(coupon, signingKey)).toMatchObject({ code: 'X' });
+      await expect(
+        crypto.signObject(signingKey, { type: 'item-collection', items: [] })
+      ).rejects.toThrow('Payload version is required');
+
+      crypto.setSchema(undefined, 'item-collection');
+      await expect(
+        crypto.signObject(signingKey, { type: 'item-collection', items: [] })
+      ).resolves.toBeDefined();
+      await expect(crypto.signObject(signingKey, { orderId: '' })).rejects.toThrow(
+        'Payload orderId must be a non-empty string'
+      );
+    });
+  });
+
+  describe('cart payloads', () => {
+    it('should name the invalid field of a cart payload', async () => {
+      const cart = new CloudlessCart();
+      ['a', 'b', 'c'].forEach(sku => cart.addItem({ sku, unitPrice: 100 }));
+      const payload = cart.toPayload();
+      expect(validateSchema(cartPayloadSchema, payload).valid).toBe(true);
+
+      const broken = {
+        ...payload,
+        items: payload.items.map((item, index) => (index === 2 ? { ...item, quantity: 0 } : item)),
+      };
+      await expect(CloudlessCart.fromPayload(broken)).rejects.toThrow(
+        'Cart payload items[2].quantity must be a positive integer'
+      );
+    });
+
+    it('should check verified cart tokens', async () => {
+      const crypto = new CloudlessCrypto();
+      const signingKey = (await crypto.generateSigningKeyPair()).key;
+      const cart = new CloudlessCart({ signing: { crypto, signingKey } });
+      cart.addItem({ sku: 'a', unitPrice: 100 });
+      const payload = cart.toPayload();
+      const forged = await crypto.signObject(signingKey, {
+        ...payload,
+        currency: 'euro',
+      } as unknown as Record<string, unknown>);
+      await expect(cart.verifyCart(forged)).rejects.toThrow(
+        'Cart payload currency must be an ISO 4217 currency code'
+      );
+      const valid = (await cart.verifyCart(await cart.signedCart())) as unknown as CartPayload;
+      expect(valid.items).toEqual(cart.getItems());
+    });
+
+    it('should sign patches and collections under a cart schema', async () => {
+      const crypto = new CloudlessCrypto();
+      crypto.setSchema(cartPayloadSchema);
+      const signingKey = (await crypto.generateSigningKeyPair()).key;
+      const cart = new CloudlessCart({ signing: { crypto, signingKey } });
+      cart.addItem({ sku: 'a', unitPrice: 100 });
+      cart.addItem({ sku: 'b', unitPrice: 200 }, 'wishlist');
+      const base = await cart.signedCart();
+
+      const copy = await CloudlessCart.fromToken(base, { crypto, signingKey });
+      cart.updateQuantity('a', 2);
+      const patched = await copy.applyPatchToken(await cart.signedPatch());
+      expect(patched.getTotals()).toEqual(cart.getTotals());
+
+      const wishlist = await cart.signedCollection('wishlist');
+      expect(await copy.restoreCollection(wishlist)).toBe('wishlist');
+      const shared = await cart.shareCollection('wishlist');
+      const check = await verifySharedCollection(shared, crypto, { trustedKeys: [signingKey] });
+      expect(check.valid).toBe(true);
+    });
+  });
+});
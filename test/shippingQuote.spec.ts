@@ -0,0 +1,158 @@
+import CloudlessCart, { parseCartPayload } from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import JsonSignature, { SignedObject } from '../src/jsonSignature';
+import PriceVerifier, { StaticPriceCatalog } from '../src/priceVerifier';
+import PromotionEngine from '../src/promotion';
+import ShippingQuoter from '../src/shippingQuote';
+
+describe('ShippingQuoter', () => {
+  let signer: JsonSignature;
+  let quoter: ShippingQuoter;
+  let quoteKey: string;
+  let crypto: CloudlessCrypto;
+  let cart: CloudlessCart;
+  const trusted = () => ({ trustedKeys: [quoteKey] });
+  const quoteCart = async (price = 799) => {
+    const token = (await cart.signedCart()) as SignedObject;
+    return await quoter.issueQuote(quoteKey, parseCartPayload(token.payload), {
+      carrier: 'UPS',
+      service: 'ground',
+      price,
+    });
+  };
+
+  beforeEach(async () => {
+    signer = new JsonSignature();
+    quoter = new ShippingQuoter(signer);
+    quoteKey = (await signer.generateKeyPair()).key;
+    crypto = new CloudlessCrypto();
+    cart = new CloudlessCart({
+      signing: { crypto, signingKey: (await crypto.generateSigningKeyPair()).key },
+    });
+    cart.addItem({ sku: 'pen', unitPrice: 300, quantity: 2 });
+  });
+
+  it('should add the quoted price to the totals', async () => {
+    const quote = await quoteCart();
+    expect(quote.payload).toMatchObject({
+      type: 'shipping-quote',
+      cartId: cart.getCartId(),
+      revision: 1,
+      carrier: 'UPS',
+      service: 'ground',
+      price: 799,
+      currency: 'USD',
+    });
+    cart.attachShippingQuote(quote);
+    expect(cart.getTotals()).toMatchObject({ shipping: 799, total: 1399 });
+    expect(cart.getShippingQuote()).toEqual(quote);
+
+    const signed = (await cart.signedCart()) as SignedObject;
+    const restored = await CloudlessCart.fromPayload(signed.payload);
+    expect(restored.getTotals().total).toBe(1399);
+    const check = await quoter.verifyCartShipping(
+      parseCartPayload(signed.payload),
+      trusted()
+    );
+    expect(check.valid).toBe(true);
+
+    expect(cart.removeShippingQuote()).toBe(true);
+    expect(cart.getTotals().shipping).toBeUndefined();
+  });
+
+  it('should only attach a quote for the current revision', async () => {
+    const unsigned = new CloudlessCart();
+    const quote = await quoteCart();
+    expect(() => unsigned.attachShippingQuote(quote)).toThrow('no signed revision');
+    cart.addItem({ sku: 'pad', unitPrice: 500 });
+    await cart.signedCart();
+    expect(() => cart.attachShippingQuote(quote)).toThrow(
+      'Shipping quote for revision 1 does not match revision 2'
+    );
+  });
+
+  it('should reject quotes for changed lines or other keys', async () => {
+    cart.attachShippingQuote(await quoteCart());
+    cart.updateQuantity('pen', 5);
+    const payload = cart.toPayload();
+    const changed = await quoter.verifyCartShipping(payload, trusted());
+    expect(changed.error).toBe('Cart lines changed since the shipping quote');
+    const untrusted = await quoter.verifyCartShipping(payload, { trustedKeys: [] });
+    expect(untrusted.error).toContain('is not trusted');
+  });
+
+  it('should bind the quote to the revision that follows it', async () => {
+    cart.attachShippingQuote(await quoteCart());
+    const next = parseCartPayload(((await cart.signedCart()) as SignedObject).payload);
+    expect((await quoter.verifyCartShipping(next, trusted())).valid).toBe(true);
+
+    const forked = { ...next, previousHash: 'not-the-quoted-revision' };
+    expect((await quoter.verifyCartShipping(forked, trusted())).error).toBe(
+      'Shipping quote for revision 1 does not precede revision 2'
+    );
+    const skipped = { ...next, revision: 3 };
+    expect(await quoter.verifyCartShipping(skipped, trusted())).toMatchObject({
+      valid: false,
+      stale: true,
+      error: 'Shipping quote for revision 1 is stale at revision 3',
+    });
+
+    const later = parseCartPayload(((await cart.signedCart()) as SignedObject).payload);
+    expect((await quoter.verifyCartShipping(later, trusted())).stale).toBe(true);
+  });
+
+  it('should let a free-shipping coupon waive the quoted price', async () => {
+    const engine = new PromotionEngine(signer);
+    const coupon = await engine.issueCoupon(quoteKey, {
+      code: 'SHIPFREE',
+      rule: { kind: 'free-shipping' },
+    });
+    cart.attachShippingQuote(await quoteCart());
+    await cart.applyCoupon(coupon, engine, trusted());
+    expect(cart.getTotals()).toMatchObject({ shipping: 0, total: 600 });
+    expect(cart.getTotals().discounts).toEqual([{ id: 'coupon:SHIPFREE', amount: 799 }]);
+  });
+
+  describe('PriceVerifier', () => {
+    const catalog = new StaticPriceCatalog({ pen: 300 });
+
+    it('should accept a bound quote and requote an expired one', async () => {
+      cart.attachShippingQuote(await quoteCart());
+      const verifier = new PriceVerifier(crypto, catalog, {
+        shipping: { quoter, ...trusted() },
+      });
+      const signed = (await cart.signedCart()) as SignedObject;
+      const result = await verifier.verifySignedCart(signed);
+      expect(result.decision).toBe('accept');
+      expect(result.currentTotals?.total).toBe(1399);
+
+      const later = new PriceVerifier(crypto, catalog, {
+        shipping: { quoter, ...trusted(), now: Date.now() + 60 * 60 * 1000 },
+      });
+      const expired = await later.verifySignedCart(signed);
+      expect(expired.decision).toBe('requote');
+      expect(expired.errors).toEqual(['Shipping quote has expired']);
+    });
+
+    it('should requote a cart signed again after the quoted revision', async () => {
+      cart.attachShippingQuote(await quoteCart());
+      await cart.signedCart();
+      const verifier = new PriceVerifier(crypto, catalog, {
+        shipping: { quoter, ...trusted() },
+      });
+      const result = await verifier.verifySignedCart((await cart.signedCart()) as SignedObject);
+      expect(result.decision).toBe('requote');
+    });
+
+    it('should reject a cart without a shipping quote', async () => {
+      const verifier = new PriceVerifier(crypto, catalog, {
+        shipping: { quoter, ...trusted() },
+      });
+      const result = await verifier.verifySignedCart(
+        (await cart.signedCart()) as SignedObject
+      );
+      expect(result.decision).toBe('reject');
+      expect(result.errors).toEqual(['Cart has no shipping quote']);
+    });
+  });
+});
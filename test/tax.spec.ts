@@ -0,0 +1,127 @@
+import CloudlessCart from '../src/cloudlessCart';
+import CloudlessCrypto from '../src/cloudlessCrypto';
+import { SignedObject } from '../src/jsonSignature';
+import PriceVerifier, { StaticPriceCatalog } from '../src/priceVerifier';
+import TableTaxCalculator, { TaxTable } from '../src/tax';
+
+describe('TableTaxCalculator', () => {
+  const table: TaxTable = {
+    jurisdictions: [
+      { code: 'US', rates: [] },
+      {
+        code: 'US-CA',
+        rates: [{ name: 'CA state', rate: '0.0725', exemptCategories: ['grocery'] }],
+      },
+      { code: 'US-CA-SF', rates: [{ name: 'SF district', rate: '0.01' }] },
+      {
+        code: 'DE',
+        inclusive: true,
+        rates: [{ name: 'DE VAT', rate: '0.19' }],
+        exemptCategories: ['exports'],
+      },
+    ],
+  };
+  let cart: CloudlessCart;
+
+  beforeEach(() => {
+    cart = new CloudlessCart({
+      taxRate: '0.5',
+      taxCalculator: new TableTaxCalculator(table, 'US-CA-SF'),
+    });
+    cart.addItem({ sku: 'pen', unitPrice: 1000, category: 'stationery' });
+    cart.addItem({ sku: 'apple', unitPrice: 500, category: 'grocery' });
+  });
+
+  it('should stack the rates of parent jurisdictions', () => {
+    const totals = cart.getTotals();
+    expect(totals.lines[0]).toMatchObject({
+      tax: 82,
+      total: 1082,
+      taxInclusive: false,
+      taxes: [
+        { name: 'CA state', rate: '0.0725', amount: 72 },
+        { name: 'SF district', rate: '0.01', amount: 10 },
+      ],
+    });
+    expect(totals.lines[1]).toMatchObject({
+      tax: 5,
+      taxes: [{ name: 'SF district', rate: '0.01', amount: 5 }],
+    });
+    expect(totals.tax).toBe(87);
+  });
+
+  it('should extract inclusive tax from the price', () => {
+    cart = new CloudlessCart({
+      currency: 'EUR',
+      taxCalculator: new TableTaxCalculator(table, 'DE'),
+    });
+    cart.addItem({ sku: 'pen', unitPrice: 1190 });
+    cart.addItem({ sku: 'crate', unitPrice: 5000, category: 'exports' });
+    cart.addDiscount({ id: 'half', rate: '0.5', sku: 'pen' });
+    const totals = cart.getTotals();
+    expect(totals.lines[0]).toMatchObject({ net: 595, tax: 95, total: 595 });
+    expect(totals.lines[1]).toMatchObject({ tax: 0, total: 5000, taxes: [] });
+    expect(totals.total).toBe(5595);
+  });
+
+  it('should refuse unknown jurisdictions', () => {
+    expect(() => new TableTaxCalculator(table, 'US-NY')).toThrow(
+      'Unknown tax jurisdiction US-NY'
+    );
+  });
+
+  describe('signed carts', () => {
+    let crypto: CloudlessCrypto;
+    let config: { crypto: CloudlessCrypto; signingKey: string };
+
+    beforeEach(async () => {
+      crypto = new CloudlessCrypto();
+      config = { crypto, signingKey: (await crypto.generateSigningKeyPair()).key };
+      cart.setSigning(config);
+    });
+
+    it('should re-derive recorded taxes without the calculator', async () => {
+      const token = (await cart.signedCart()) as SignedObject;
+      const restored = await CloudlessCart.fromToken(token, config);
+      expect(restored.getTotals()).toEqual(cart.getTotals());
+
+      const verifier = new PriceVerifier(
+        crypto,
+        new StaticPriceCatalog({ pen: 1000, apple: 500 })
+      );
+      expect((await verifier.verifySignedCart(token)).decision).toBe('accept');
+
+      const tampered = (await cart.signedCart()) as SignedObject;
+      const lines = (tampered.payload.totals as { lines: { tax: number }[] }).lines;
+      lines[0].tax = 0;
+      const resigned = (await crypto.signObject(config.signingKey, tampered.payload)) as SignedObject;
+      const result = await verifier.verifySignedCart(resigned);
+      expect(result.decision).toBe('reject');
+      expect(result.totalsMismatch).toBe(true);
+    });
+
+    it('should price lines added after a restore with the given calculator', async () => {
+      const token = await cart.signedCart();
+      const restored = await CloudlessCart.fromToken(token, config, {
+        taxCalculator: new TableTaxCalculator(table, 'US-CA-SF'),
+      });
+      restored.addItem({ sku: 'ink', unitPrice: 2000, category: 'stationery' });
+      expect(restored.getTotals().lines[2]).toMatchObject({ tax: 165 });
+
+      const replayed = await CloudlessCart.fromToken(token, config);
+      expect(replayed.getTotals()).toEqual(cart.getTotals());
+      replayed.addItem({ sku: 'ink', unitPrice: 2000 });
+      expect(() => replayed.getTotals()).toThrow(
+        'No tax rates recorded for line item ink, restore the cart with a taxCalculator'
+      );
+    });
+
+    it('should carry the breakdown through patches', async () => {
+      const base = await cart.signedCart();
+      cart.updateQuantity('pen', 3);
+      const patch = await cart.signedPatch();
+      const patched = await CloudlessCart.fromPatchToken(base, patch, config);
+      expect(patched.getTotals()).toEqual(cart.getTotals());
+    });
+  });
+});
@@ -90,12 +90,12 @@ describe('TokenCrypto', () => {
 
   describe('key management', () => {
     it('should list available keys', async () => {
-      expect(tokenCrypto.getAvailableKeys()).toEqual([]);
+      expect(await tokenCrypto.getAvailableKeys()).toEqual([]);
       
       const result1 = await tokenCrypto.generateKeyPairForEncryption();
       const result2 = await tokenCrypto.generateKeyPairForEncryption();
       
-      const keys = tokenCrypto.getAvailableKeys();
+      const keys = await tokenCrypto.getAvailableKeys();
       expect(keys).toContain(result1.key);
       expect(keys).toContain(result2.key);
       expect(keys).toHaveLength(2);
@@ -104,8 +104,8 @@ describe('TokenCrypto', () => {
     it('should check if key exists', async () => {
       const result = await tokenCrypto.generateKeyPairForEncryption();
       
-      expect(tokenCrypto.hasKey(result.key)).toBe(true);
-      expect(tokenCrypto.hasKey('non-existent-key')).toBe(false);
+      expect(await tokenCrypto.hasKey(result.key)).toBe(true);
+      expect(await tokenCrypto.hasKey('non-existent-key')).toBe(false);
     });
 
     it('should export and import key pairs', async () => {
@@ -125,7 +125,7 @@ describe('TokenCrypto', () => {
         exported.alg!
       );
       
-      expect(newTokenCrypto.hasKey(exported.kid)).toBe(true);
+      expect(await newTokenCrypto.hasKey(exported.kid)).toBe(true);
       
       // Test that imported keys work
       const payload = { test: 'import-test' };
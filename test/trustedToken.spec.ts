@@ -0,0 +1,53 @@
+import JsonSignature from '../src/jsonSignature';
+import { verifyTrustedToken } from '../src/trustedToken';
+
+describe('verifyTrustedToken', () => {
+  let signer: JsonSignature;
+  let key: string;
+  const options = { type: 'voucher', name: 'Voucher', typeError: 'Not a voucher' };
+
+  beforeEach(async () => {
+    signer = new JsonSignature();
+    key = (await signer.generateKeyPair()).key;
+  });
+
+  it('should return the claims and kid of a trusted token', async () => {
+    const token = await signer.sign(key, { type: 'voucher', amount: 500 });
+    expect(await verifyTrustedToken(signer, token, [key], options)).toEqual({
+      valid: true,
+      kid: key,
+      claims: { type: 'voucher', amount: 500 },
+    });
+  });
+
+  it('should reject untrusted keys, tampered tokens and other types', async () => {
+    const token = await signer.sign(key, { type: 'voucher', amount: 500 });
+    expect((await verifyTrustedToken(signer, token, [], options)).error).toBe(
+      `Voucher key ${key} is not trusted`
+    );
+    const tampered = { ...token, payload: { ...token.payload, amount: 5000 } };
+    expect((await verifyTrustedToken(signer, tampered, [key], options)).valid).toBe(false);
+    const other = await signer.sign(key, { type: 'coupon' });
+    expect(await verifyTrustedToken(signer, other, [key], options)).toEqual({
+      valid: false,
+      error: 'Not a voucher',
+    });
+  });
+
+  it('should check the validity window', async () => {
+    const token = await signer.sign(key, { type: 'voucher', validFrom: 1000, validUntil: 2000 });
+    const at = (now: number) => verifyTrustedToken(signer, token, [key], { ...options, now });
+    expect((await at(500)).error).toBe('Voucher is not yet valid');
+    expect((await at(1500)).valid).toBe(true);
+    expect(await at(2500)).toMatchObject({
+      valid: false,
+      error: 'Voucher has expired',
+      expired: true,
+    });
+
+    const held = await signer.sign(key, { type: 'voucher', expiresAt: 1000 });
+    expect(
+      (await verifyTrustedToken(signer, held, [key], { ...options, now: 1001 })).expired
+    ).toBe(true);
+  });
+});